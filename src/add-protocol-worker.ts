@@ -1,6 +1,17 @@
-import { LocalDemManager } from "./local-dem-manager";
-import { decodeOptions, getOptionsForZoom, parseUrl } from "./utils";
+import {
+  decodeHillshadeOptions,
+  decodeOptions,
+  getOptionsForZoom,
+  parseUrl,
+} from "./utils";
 import type { DemManagerRequiredInitializationParameters } from "./types";
+import { createLocalDemManager } from "./worker-dispatch";
+
+const makeRequest = async (
+  request: { url: string; type: "arrayBuffer"; headers?: any },
+  abortController: AbortController,
+): Promise<ArrayBuffer> =>
+  (await (self as any).makeRequest(request, abortController)).data;
 
 (self as any).worker.actor.registerMessageHandler(
   "contour-worker" as any,
@@ -8,24 +19,37 @@ import type { DemManagerRequiredInitializationParameters } from "./types";
     mapId: string | number,
     params: DemManagerRequiredInitializationParameters,
   ) => {
-    const localDemManager = new LocalDemManager({
+    const localDemManager = createLocalDemManager({
       demUrlPattern: params.demUrlPattern,
       cacheSize: params.cacheSize ?? 100,
       timeoutMs: params.timeoutMs ?? 10_000,
       encoding: params.encoding,
       maxzoom: params.maxzoom,
-      getTile: async (url: string, abortController: AbortController) => {
-        const request = {
-          url,
-          type: "arrayBuffer",
-        };
-        const { data } = await (self as any).makeRequest(
-          request,
+      tileSize: params.tileSize,
+      getTile: async (url: string, abortController: AbortController) => ({
+        data: new Blob([
+          await makeRequest({ url, type: "arrayBuffer" }, abortController),
+        ]),
+      }),
+      // cog:// and pmtiles:// sources read parts of a file
+      getRange: async (
+        url: string,
+        offset: number,
+        length: number,
+        abortController: AbortController,
+      ) => {
+        const data = await makeRequest(
+          {
+            url,
+            type: "arrayBuffer",
+            headers: { range: `bytes=${offset}-${offset + length - 1}` },
+          },
           abortController,
         );
-        return {
-          data: new Blob([data]),
-        };
+        // servers that don't support range requests send the whole file
+        return data.byteLength > length
+          ? data.slice(offset, offset + length)
+          : data;
       },
     });
 
@@ -44,6 +68,21 @@ import type { DemManagerRequiredInitializationParameters } from "./types";
         return { data: data.arrayBuffer };
       },
     );
+
+    (self as any).addProtocol(
+      "dem-hillshade",
+      async (request: any, abortController: AbortController) => {
+        const [z, x, y] = parseUrl(request.url);
+        const data = await localDemManager.fetchHillshadeTile(
+          z,
+          x,
+          y,
+          decodeHillshadeOptions(request.url),
+          abortController,
+        );
+        return { data: data.arrayBuffer };
+      },
+    );
   },
 );
 
@@ -0,0 +1,56 @@
+import clipLine, { clipRing } from "./clip";
+
+test("keeps lines inside", () => {
+  expect(clipLine([0, 0, 5, 5, 10, 0], 0, 10)).toEqual([[0, 0, 5, 5, 10, 0]]);
+});
+
+test("drops lines outside", () => {
+  expect(clipLine([-5, -5, -1, 20, -5, 30], 0, 10)).toEqual([]);
+  expect(clipLine([-5, 5, 0, 0, -5, -5], 0, 10)).toEqual([]);
+});
+
+test("interpolates where lines cross the edge", () => {
+  expect(clipLine([-10, 5, 5, 5, 5, 20], 0, 10)).toEqual([[0, 5, 5, 5, 5, 10]]);
+  expect(clipLine([-5, 0, 5, 10], 0, 10)).toEqual([[0, 5, 5, 10]]);
+});
+
+test("splits lines that leave and come back", () => {
+  expect(clipLine([2, 2, 2, 20, 8, 20, 8, 2], 0, 10)).toEqual([
+    [2, 2, 2, 10],
+    [8, 10, 8, 2],
+  ]);
+});
+
+test("rings inside stay closed", () => {
+  const ring = [2, 2, 8, 2, 8, 8, 2, 8, 2, 2];
+  expect(clipLine(ring, 0, 10)).toEqual([ring]);
+});
+
+test("joins the ends of rings split at their start point", () => {
+  expect(clipLine([5, 5, 15, 5, 15, 8, 5, 8, 5, 5], 0, 10)).toEqual([
+    [10, 8, 5, 8, 5, 5, 10, 5],
+  ]);
+});
+
+test("clips rings to the square", () => {
+  const ring = [2, 2, 8, 2, 8, 8, 2, 8, 2, 2];
+  expect(clipRing(ring, 0, 10)).toEqual(ring);
+  // follows the edge of the square where the ring leaves it, keeping the same winding order
+  expect(clipRing([5, 5, 15, 5, 15, 8, 5, 8, 5, 5], 0, 10)).toEqual([
+    5, 5, 10, 5, 10, 8, 5, 8, 5, 5,
+  ]);
+  expect(clipRing([-5, 5, 5, -5, 15, 5, 5, 15, -5, 5], 0, 10)).toEqual([
+    0, 10, 0, 0, 10, 0, 10, 10, 0, 10,
+  ]);
+  expect(clipRing([-5, -5, 20, -5, 20, 20, -5, 20, -5, -5], 0, 10)).toEqual([
+    0, 10, 0, 0, 10, 0, 10, 10, 0, 10,
+  ]);
+});
+
+test("drops rings outside the square", () => {
+  expect(clipRing([12, 2, 18, 2, 18, 8, 12, 8, 12, 2], 0, 10)).toBeUndefined();
+  // around a corner without covering it
+  expect(
+    clipRing([-5, 5, -5, -5, 5, -5, 5, -1, -1, -1, -1, 5, -5, 5], 0, 10),
+  ).toBeUndefined();
+});
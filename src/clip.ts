@@ -0,0 +1,144 @@
+import { ringArea } from "./isolines";
+
+/** Returns true if the last point of a `[x1, y1, x2, y2, ...]` line is the same as the first. */
+export function isClosed(line: number[]): boolean {
+  return (
+    line.length > 4 &&
+    line[0] === line[line.length - 2] &&
+    line[1] === line[line.length - 1]
+  );
+}
+
+/**
+ * Clips a `[x1, y1, x2, y2, ...]` line to the square from `min, min` to `max, max`, splitting it into
+ * separate lines wherever it leaves the square. Points where the line crosses the edge of the square are
+ * interpolated and rounded to integers.
+ *
+ * @returns the parts of the line inside the square, a ring that is entirely inside stays a single closed ring
+ */
+export default function clipLine(
+  line: number[],
+  min: number,
+  max: number,
+): number[][] {
+  const result: number[][] = [];
+  let current: number[] = [];
+  const finish = () => {
+    // skip parts that only touch the edge of the square
+    for (let i = 2; i < current.length; i += 2) {
+      if (current[i] !== current[0] || current[i + 1] !== current[1]) {
+        result.push(current);
+        break;
+      }
+    }
+    current = [];
+  };
+  for (let i = 0; i < line.length - 2; i += 2) {
+    const ax = line[i];
+    const ay = line[i + 1];
+    const dx = line[i + 2] - ax;
+    const dy = line[i + 3] - ay;
+    // Liang-Barsky: narrow down the portion of the segment from t0 to t1 that is inside the square
+    let t0 = 0;
+    let t1 = 1;
+    for (const [p, q] of [
+      [-dx, ax - min],
+      [dx, max - ax],
+      [-dy, ay - min],
+      [dy, max - ay],
+    ]) {
+      if (p === 0) {
+        if (q < 0) t0 = Infinity;
+      } else if (p < 0) {
+        t0 = Math.max(t0, q / p);
+      } else {
+        t1 = Math.min(t1, q / p);
+      }
+    }
+    if (t0 > t1) {
+      finish();
+      continue;
+    }
+    if (t0 > 0 || current.length === 0) {
+      finish();
+      current.push(Math.round(ax + t0 * dx), Math.round(ay + t0 * dy));
+    }
+    current.push(Math.round(ax + t1 * dx), Math.round(ay + t1 * dy));
+    if (t1 < 1) {
+      finish();
+    }
+  }
+  finish();
+
+  // a ring that starts inside the square gets split at its start point, so join the first and last parts back up
+  const first = result[0];
+  const last = result[result.length - 1];
+  if (
+    result.length > 1 &&
+    isClosed(line) &&
+    first[0] === line[0] &&
+    first[1] === line[1] &&
+    last[last.length - 2] === line[0] &&
+    last[last.length - 1] === line[1]
+  ) {
+    result[0] = [...last, ...first.slice(2)];
+    result.pop();
+  }
+  return result;
+}
+
+/**
+ * Clips a closed `[x1, y1, x2, y2, ...]` ring to the square from `min, min` to `max, max`, following the edge of
+ * the square wherever the ring leaves it. Points where the ring crosses the edge are interpolated and rounded to
+ * integers, and the ring keeps its winding order.
+ *
+ * @returns the part of the ring inside the square, or `undefined` if there is none
+ */
+export function clipRing(
+  ring: number[],
+  min: number,
+  max: number,
+): number[] | undefined {
+  // Sutherland-Hodgman: clip against one edge of the square at a time, without the repeated closing point
+  let points = ring.slice(0, -2);
+  for (const [axis, bound, sign] of [
+    [0, min, 1],
+    [0, max, -1],
+    [1, min, 1],
+    [1, max, -1],
+  ]) {
+    const inside = (i: number) => (points[i + axis] - bound) * sign >= 0;
+    const result: number[] = [];
+    const push = (x: number, y: number) => {
+      if (x !== result[result.length - 2] || y !== result[result.length - 1]) {
+        result.push(x, y);
+      }
+    };
+    for (let i = 0; i < points.length; i += 2) {
+      const prev = (i || points.length) - 2;
+      if (inside(i) !== inside(prev)) {
+        const t =
+          (bound - points[prev + axis]) /
+          (points[i + axis] - points[prev + axis]);
+        push(
+          Math.round(points[prev] + t * (points[i] - points[prev])),
+          Math.round(points[prev + 1] + t * (points[i + 1] - points[prev + 1])),
+        );
+      }
+      if (inside(i)) {
+        push(points[i], points[i + 1]);
+      }
+    }
+    if (
+      result.length > 2 &&
+      result[0] === result[result.length - 2] &&
+      result[1] === result[result.length - 1]
+    ) {
+      result.length -= 2;
+    }
+    points = result;
+  }
+  const result = [...points, points[0], points[1]];
+  // rings outside of a corner of the square can collapse onto its edges
+  return points.length >= 6 && ringArea(result) !== 0 ? result : undefined;
+}
@@ -0,0 +1,179 @@
+import AsyncCache from "./cache";
+import { decodeCogTile, readCogImages, selectOverview } from "./cog";
+import type { CogImage } from "./cog";
+import { HeightTile } from "./height-tile";
+import { LocalDemManager } from "./local-dem-manager";
+import { encodeTerrariumPng } from "./png";
+import resampleToTile, { gridPixelRange } from "./resample";
+import type {
+  DemManagerInitizlizationParameters,
+  DemTile,
+  FetchResponse,
+} from "./types";
+import { isAborted, withTimeout } from "./utils";
+import type { Timer } from "./performance";
+
+const COG_PREFIX = "cog://";
+
+/** Returns true for `cog://https://...` urls that point to a cloud optimized GeoTIFF instead of a tile pattern. */
+export function isCogUrl(url: string): boolean {
+  return url.startsWith(COG_PREFIX);
+}
+
+/**
+ * Caches and processes DEM tiles resampled from a cloud optimized GeoTIFF in the current thread, reading only
+ * the parts of the file each tile needs with range requests.
+ */
+export class CogDemManager extends LocalDemManager {
+  url: string;
+  tileSize: number;
+  imageCache: AsyncCache<string, CogImage[]>;
+  cogTileCache: AsyncCache<string, Float32Array>;
+
+  constructor(options: DemManagerInitizlizationParameters) {
+    super(options);
+    this.url = options.demUrlPattern.replace(COG_PREFIX, "");
+    this.tileSize = options.tileSize || 512;
+    this.imageCache = new AsyncCache(1);
+    this.cogTileCache = new AsyncCache(options.cacheSize);
+  }
+
+  readRange = (
+    offset: number,
+    length: number,
+    abortController: AbortController,
+  ): Promise<ArrayBuffer> =>
+    withTimeout(
+      this.timeoutMs,
+      this.getRange(this.url, offset, length, abortController),
+      abortController,
+    );
+
+  /** Encodes tiles as terrarium PNGs so the shared DEM protocol works the same as with tile sources. */
+  fetchTile(
+    z: number,
+    x: number,
+    y: number,
+    parentAbortController: AbortController,
+    timer?: Timer,
+  ): Promise<FetchResponse> {
+    return this.tileCache.get(
+      `${z}/${x}/${y}`,
+      async (_, childAbortController) => {
+        const tile = await this.fetchAndParseTile(
+          z,
+          x,
+          y,
+          childAbortController,
+          timer,
+        );
+        return {
+          data: new Blob([await encodeTerrariumPng(tile)], {
+            type: "image/png",
+          }),
+        };
+      },
+      parentAbortController,
+    );
+  }
+
+  fetchAndParseTile = (
+    z: number,
+    x: number,
+    y: number,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<DemTile> => {
+    const key = `${z}/${x}/${y}`;
+    timer?.useTile(`${this.url}#${key}`);
+    return this.parsedCache.get(
+      key,
+      async (_, childAbortController) => {
+        const mark = timer?.marker("fetch");
+        const images = await this.imageCache.get(
+          this.url,
+          (_, headerAbortController) =>
+            readCogImages((offset, length) =>
+              this.readRange(offset, length, headerAbortController),
+            ),
+          childAbortController,
+        );
+        const level = images.indexOf(selectOverview(images, z, this.tileSize));
+        const image = images[level];
+        const { width, height, tileWidth, tileHeight } = image;
+        const tilesAcross = Math.ceil(width / tileWidth);
+        const [minCol, minRow, maxCol, maxRow] = gridPixelRange(
+          image.transform,
+          z,
+          x,
+          y,
+          this.tileSize,
+        );
+
+        const firstRow = Math.max(0, Math.floor(minRow / tileHeight));
+        const lastRow = Math.floor(Math.min(maxRow, height - 1) / tileHeight);
+        const firstCol = Math.max(0, Math.floor(minCol / tileWidth));
+        const lastCol = Math.floor(Math.min(maxCol, width - 1) / tileWidth);
+        const tiles = new Map<number, Float32Array>();
+        const requests: Promise<void>[] = [];
+        for (let row = firstRow; row <= lastRow; row++) {
+          for (let col = firstCol; col <= lastCol; col++) {
+            const index = row * tilesAcross + col;
+            const byteCount = image.tileByteCounts[index];
+            requests.push(
+              (byteCount
+                ? this.cogTileCache.get(
+                    `${level}/${index}`,
+                    async (_, tileAbortController) =>
+                      decodeCogTile(
+                        image,
+                        await this.readRange(
+                          image.tileOffsets[index],
+                          byteCount,
+                          tileAbortController,
+                        ),
+                      ),
+                    childAbortController,
+                  )
+                : // sparse files leave out tiles without data
+                  Promise.resolve(
+                    new Float32Array(tileWidth * tileHeight).fill(NaN),
+                  )
+              ).then((data) => {
+                tiles.set(index, data);
+              }),
+            );
+          }
+        }
+        await Promise.all(requests);
+        mark?.();
+        if (isAborted(childAbortController)) throw new Error("canceled");
+
+        const decodeMark = timer?.marker("decode");
+        const grid = new HeightTile(width, height, (col, row) => {
+          if (col < 0 || row < 0 || col >= width || row >= height) {
+            return NaN;
+          }
+          const data = tiles.get(
+            Math.floor(row / tileHeight) * tilesAcross +
+              Math.floor(col / tileWidth),
+          );
+          return data
+            ? data[(row % tileHeight) * tileWidth + (col % tileWidth)]
+            : NaN;
+        });
+        const result = resampleToTile(
+          grid,
+          image.transform,
+          z,
+          x,
+          y,
+          this.tileSize,
+        );
+        decodeMark?.();
+        return result;
+      },
+      abortController,
+    );
+  };
+}
@@ -0,0 +1,546 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DecompressionStream } from "stream/web";
+import { deflateSync } from "zlib";
+import { PNG } from "pngjs";
+import { decodeCogTile, decodeLzw, readCogImages, selectOverview } from "./cog";
+import type { CogImage } from "./cog";
+import { CogDemManager } from "./cog-dem-manager";
+import { decodeParsedImage } from "./decode-image";
+import type { GetRangeFunction } from "./types";
+
+// jsdom leaves out the compression streams API that browsers and node have
+Object.assign(global, { DecompressionStream });
+
+const HALF_WORLD_M = 20037508.342789244;
+
+interface TiffOptions {
+  tileSize: number;
+  littleEndian?: boolean;
+  bigTiff?: boolean;
+  /** 3 for float32, 2 for int16 */
+  sampleFormat?: number;
+  compression?: number;
+  predictor?: number;
+  noData?: number;
+  /** EPSG code of the projected coordinate system, or 4326 for longitude/latitude */
+  epsg?: number;
+  /** top-left corner of the image */
+  origin: [number, number];
+  /** size of each full resolution pixel */
+  scale: number;
+}
+
+interface Level {
+  width: number;
+  height: number;
+  /** value of each pixel in row-major order */
+  values: (col: number, row: number) => number;
+}
+
+/** Encodes data with TIFF LZW compression. */
+function encodeLzw(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const write = (code: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits = (bits << 1) | ((code >> i) & 1);
+      if (++bitCount === 8) {
+        output.push(bits);
+        bits = bitCount = 0;
+      }
+    }
+  };
+  let table = new Map<string, number>();
+  let next = 258;
+  let codeLength = 9;
+  const reset = () => {
+    table = new Map();
+    for (let i = 0; i < 256; i++) table.set(String.fromCharCode(i), i);
+    next = 258;
+    codeLength = 9;
+  };
+  const added = () => {
+    if (++next >= 1 << codeLength) codeLength++;
+  };
+  reset();
+  write(256, codeLength);
+  let current = "";
+  for (const byte of data) {
+    const extended = current + String.fromCharCode(byte);
+    if (table.has(extended)) {
+      current = extended;
+      continue;
+    }
+    write(table.get(current) || 0, codeLength);
+    table.set(extended, next);
+    added();
+    current = String.fromCharCode(byte);
+    if (next >= 4094) {
+      write(256, codeLength);
+      reset();
+    }
+  }
+  if (current) {
+    write(table.get(current) || 0, codeLength);
+    added();
+  }
+  write(257, codeLength);
+  if (bitCount > 0) output.push(bits << (8 - bitCount));
+  return Uint8Array.from(output);
+}
+
+function encodeTile(
+  level: Level,
+  tileCol: number,
+  tileRow: number,
+  options: TiffOptions,
+): Uint8Array {
+  const { tileSize, sampleFormat = 3, predictor = 1, noData = 0 } = options;
+  const littleEndian = options.littleEndian ?? true;
+  const bytes = sampleFormat === 3 ? 4 : 2;
+  const values = new (sampleFormat === 3 ? Float32Array : Int16Array)(
+    tileSize * tileSize,
+  );
+  for (let row = 0; row < tileSize; row++) {
+    for (let col = 0; col < tileSize; col++) {
+      const x = tileCol * tileSize + col;
+      const y = tileRow * tileSize + row;
+      values[row * tileSize + col] =
+        x < level.width && y < level.height ? level.values(x, y) : noData;
+    }
+  }
+  let data: Uint8Array = new Uint8Array(values.length * bytes);
+  const view = new DataView(data.buffer);
+  if (predictor === 3) {
+    // split each row into planes of bytes from most to least significant, then take differences
+    for (let row = 0; row < tileSize; row++) {
+      const start = row * tileSize * bytes;
+      for (let col = 0; col < tileSize; col++) {
+        const value = new DataView(new ArrayBuffer(4));
+        value.setFloat32(0, values[row * tileSize + col]);
+        for (let b = 0; b < bytes; b++) {
+          data[start + b * tileSize + col] = value.getUint8(b);
+        }
+      }
+      for (let i = start + tileSize * bytes - 1; i > start; i--) {
+        data[i] -= data[i - 1];
+      }
+    }
+  } else {
+    for (let i = 0; i < values.length; i++) {
+      const col = i % tileSize;
+      const value =
+        predictor === 2 && col > 0 ? values[i] - values[i - 1] : values[i];
+      if (sampleFormat === 3) {
+        view.setFloat32(i * bytes, value, littleEndian);
+      } else {
+        view.setInt16(i * bytes, value, littleEndian);
+      }
+    }
+  }
+  if (options.compression === 5) {
+    data = encodeLzw(data);
+  } else if (options.compression === 8) {
+    data = deflateSync(data);
+  }
+  return data;
+}
+
+/** Writes a tiled GeoTIFF with a full resolution image followed by overviews. */
+function writeTiff(levels: Level[], options: TiffOptions): Uint8Array {
+  const littleEndian = options.littleEndian ?? true;
+  const { bigTiff = false, tileSize, epsg = 3857 } = options;
+  const bytes = new Uint8Array(1 << 20);
+  const view = new DataView(bytes.buffer);
+  const writeOffset = (pos: number, value: number) =>
+    bigTiff
+      ? view.setBigUint64(pos, BigInt(value), littleEndian)
+      : view.setUint32(pos, value, littleEndian);
+  bytes.set(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, bigTiff ? 43 : 42, littleEndian);
+  if (bigTiff) {
+    view.setUint16(4, 8, littleEndian);
+  }
+  let pos = bigTiff ? 16 : 8;
+
+  const tileOffsets: number[][] = [];
+  const tileByteCounts: number[][] = [];
+  for (const level of levels) {
+    const offsets: number[] = [];
+    const counts: number[] = [];
+    for (let row = 0; row < Math.ceil(level.height / tileSize); row++) {
+      for (let col = 0; col < Math.ceil(level.width / tileSize); col++) {
+        const data = encodeTile(level, col, row, options);
+        offsets.push(pos);
+        counts.push(data.length);
+        bytes.set(data, pos);
+        pos += data.length;
+      }
+    }
+    tileOffsets.push(offsets);
+    tileByteCounts.push(counts);
+  }
+
+  writeOffset(bigTiff ? 8 : 4, pos);
+  const typeSizes: { [type: number]: number } = { 2: 1, 3: 2, 4: 4, 12: 8 };
+  levels.forEach((level, i) => {
+    const entries: [number, number, number[]][] = [
+      [254, 4, [i === 0 ? 0 : 1]],
+      [256, 4, [level.width]],
+      [257, 4, [level.height]],
+      [258, 3, [options.sampleFormat === 2 ? 16 : 32]],
+      [259, 3, [options.compression || 1]],
+      [277, 3, [1]],
+      [317, 3, [options.predictor || 1]],
+      [322, 3, [tileSize]],
+      [323, 3, [tileSize]],
+      [324, 4, tileOffsets[i]],
+      [325, 4, tileByteCounts[i]],
+      [339, 3, [options.sampleFormat || 3]],
+    ];
+    if (i === 0) {
+      entries.push(
+        [33550, 12, [options.scale, options.scale, 0]],
+        [33922, 12, [0, 0, 0, ...options.origin, 0]],
+        [
+          34735,
+          3,
+          epsg === 4326
+            ? [1, 1, 0, 2, 1024, 0, 1, 2, 2048, 0, 1, 4326]
+            : [1, 1, 0, 2, 1024, 0, 1, 1, 3072, 0, 1, epsg],
+        ],
+      );
+      if (options.noData !== undefined) {
+        const text = `${options.noData}\0`;
+        entries.push([42113, 2, [...text].map((c) => c.charCodeAt(0))]);
+      }
+    }
+    const entrySize = bigTiff ? 20 : 12;
+    const offsetSize = bigTiff ? 8 : 4;
+    const countSize = bigTiff ? 8 : 2;
+    let valuesPos = pos + countSize + entries.length * entrySize + offsetSize;
+    writeOffset(pos, entries.length);
+    if (!bigTiff) view.setUint16(pos, entries.length, littleEndian);
+    pos += countSize;
+    for (const [tag, type, values] of entries) {
+      view.setUint16(pos, tag, littleEndian);
+      view.setUint16(pos + 2, type, littleEndian);
+      writeOffset(pos + 4, values.length);
+      const size = typeSizes[type] * values.length;
+      let valuePos = pos + 4 + offsetSize;
+      if (size > offsetSize) {
+        writeOffset(valuePos, valuesPos);
+        valuePos = valuesPos;
+        valuesPos += size + (size % 2);
+      }
+      values.forEach((value, j) => {
+        const at = valuePos + j * typeSizes[type];
+        if (type === 2) view.setUint8(at, value);
+        if (type === 3) view.setUint16(at, value, littleEndian);
+        if (type === 4) view.setUint32(at, value, littleEndian);
+        if (type === 12) view.setFloat64(at, value, littleEndian);
+      });
+      pos += entrySize;
+    }
+    writeOffset(pos, i < levels.length - 1 ? valuesPos : 0);
+    pos = valuesPos;
+  });
+  return bytes.slice(0, pos);
+}
+
+/** Serves range requests from a file on disk, like a server that supports range requests would. */
+function fileGetRange(file: string): jest.Mock & GetRangeFunction {
+  return jest.fn(async (_: string, offset: number, length: number) => {
+    const handle = await fs.promises.open(file, "r");
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return new Uint8Array(buffer.subarray(0, bytesRead)).buffer;
+    } finally {
+      await handle.close();
+    }
+  });
+}
+
+function readerFor(data: Uint8Array) {
+  return jest.fn(
+    async (offset: number, length: number) =>
+      data.slice(offset, offset + length).buffer,
+  );
+}
+
+// a 4x4 image of the whole web mercator world with a 2x2 overview
+const world: Level[] = [
+  { width: 4, height: 4, values: (col, row) => row * 4 + col },
+  { width: 2, height: 2, values: (col, row) => 100 + row * 2 + col },
+];
+const worldOptions: TiffOptions = {
+  tileSize: 2,
+  origin: [-HALF_WORLD_M, HALF_WORLD_M],
+  scale: HALF_WORLD_M / 2,
+};
+
+test("decode lzw", () => {
+  const data = new Uint8Array(20000);
+  for (let i = 0; i < data.length; i++) {
+    // repetitive enough to compress, with enough variety to fill up the table
+    data[i] = (i * 7 + (i >> 5)) % 251;
+  }
+  const encoded = encodeLzw(data);
+  expect(encoded.length).toBeLessThan(data.length);
+  expect(decodeLzw(encoded, data.length)).toEqual(data);
+  expect(decodeLzw(encodeLzw(Uint8Array.of(1, 1, 1, 1)), 4)).toEqual(
+    Uint8Array.of(1, 1, 1, 1),
+  );
+});
+
+test("read images and overviews", async () => {
+  const read = readerFor(writeTiff(world, worldOptions));
+  const images = await readCogImages(read);
+  // the whole header fits in the first request
+  expect(read).toHaveBeenCalledTimes(1);
+  expect(images.length).toBe(2);
+  expect(images[0]).toMatchObject({
+    width: 4,
+    height: 4,
+    tileWidth: 2,
+    tileHeight: 2,
+    bitsPerSample: 32,
+    sampleFormat: 3,
+    samplesPerPixel: 1,
+    compression: 1,
+    predictor: 1,
+    noData: undefined,
+    littleEndian: true,
+    transform: {
+      projection: "EPSG:3857",
+      originX: -HALF_WORLD_M,
+      originY: HALF_WORLD_M,
+      resX: HALF_WORLD_M / 2,
+      resY: HALF_WORLD_M / 2,
+    },
+  });
+  expect(images[0].tileOffsets.length).toBe(4);
+  expect(images[1].width).toBe(2);
+  expect(images[1].transform.resX).toBe(HALF_WORLD_M);
+});
+
+test("read big-endian and BigTIFF headers", async () => {
+  for (const options of [
+    { littleEndian: false },
+    { bigTiff: true },
+    { bigTiff: true, littleEndian: false },
+  ]) {
+    const data = writeTiff(world, { ...worldOptions, ...options, noData: -1 });
+    const images = await readCogImages(readerFor(data));
+    expect(images.length).toBe(2);
+    expect(images[1]).toMatchObject({ width: 2, height: 2, noData: -1 });
+    const tile = await decodeCogTile(
+      images[0],
+      data.slice(
+        images[0].tileOffsets[3],
+        images[0].tileOffsets[3] + images[0].tileByteCounts[3],
+      ).buffer,
+    );
+    expect([...tile]).toEqual([10, 11, 14, 15]);
+  }
+});
+
+test("read headers past the first request", async () => {
+  // offsets to data at the end of the file that needs another request
+  const data = writeTiff([{ width: 400, height: 400, values: () => 1 }], {
+    ...worldOptions,
+    tileSize: 16,
+  });
+  const read = readerFor(data);
+  const images = await readCogImages(read);
+  expect(data.length).toBeGreaterThan(65536);
+  expect(read.mock.calls.length).toBeGreaterThan(1);
+  expect(images[0].tileOffsets.length).toBe(625);
+});
+
+test("reject unsupported files", async () => {
+  await expect(
+    readCogImages(readerFor(Uint8Array.of(1, 2, 3, 4, 5, 6, 7, 8))),
+  ).rejects.toThrow("Not a TIFF file");
+  await expect(
+    readCogImages(
+      readerFor(writeTiff(world, { ...worldOptions, epsg: 32610 })),
+    ),
+  ).rejects.toThrow("Unsupported COG projection: EPSG:32610");
+});
+
+test("decode compressed tiles with predictors", async () => {
+  const level: Level = {
+    width: 3,
+    height: 3,
+    values: (col, row) => (row === 1 && col === 1 ? -9999 : row * 100 - col),
+  };
+  const expected = [0, -1, -2, 100, NaN, 98, 200, 199, 198];
+  for (const options of [
+    { compression: 1, predictor: 1 },
+    { compression: 5, predictor: 1 },
+    { compression: 8, predictor: 3 },
+    { compression: 5, predictor: 3 },
+    { compression: 8, predictor: 2, sampleFormat: 2 },
+    { compression: 5, predictor: 2, sampleFormat: 2, littleEndian: false },
+  ]) {
+    const data = writeTiff([level], {
+      ...worldOptions,
+      ...options,
+      tileSize: 3,
+      noData: -9999,
+    });
+    const [image] = await readCogImages(readerFor(data));
+    const tile = await decodeCogTile(
+      image,
+      data.slice(
+        image.tileOffsets[0],
+        image.tileOffsets[0] + image.tileByteCounts[0],
+      ).buffer,
+    );
+    expect([...tile]).toEqual(expected);
+  }
+});
+
+test("select overview", () => {
+  const image = (resX: number) =>
+    ({
+      transform: { projection: "EPSG:3857", resX },
+    }) as CogImage;
+  // a 512px tile at zoom 0 has pixels about 78km wide
+  const images = [image(10), image(20_000), image(80_000)];
+  expect(selectOverview(images, 0, 512)).toBe(images[1]);
+  expect(selectOverview(images, 0, 256)).toBe(images[2]);
+  expect(selectOverview(images, 5, 512)).toBe(images[0]);
+  expect(selectOverview(images, 20, 512)).toBe(images[0]);
+});
+
+describe("cog dem manager", () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "cog-test-"));
+  });
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  const manager = (
+    file: string,
+    levels: Level[],
+    options: TiffOptions,
+    tileSize: number,
+  ) => {
+    fs.writeFileSync(path.join(dir, file), writeTiff(levels, options));
+    const getRange = fileGetRange(path.join(dir, file));
+    return {
+      getRange,
+      manager: new CogDemManager({
+        demUrlPattern: `cog://https://example/${file}`,
+        cacheSize: 100,
+        encoding: "terrarium",
+        maxzoom: 1,
+        timeoutMs: 10_000,
+        tileSize,
+        getRange,
+      }),
+    };
+  };
+
+  test("resample web mercator tiles from the matching overview", async () => {
+    const { manager: cog, getRange } = manager(
+      "world.tif",
+      world,
+      worldOptions,
+      2,
+    );
+    // the overview has the same resolution as a zoom 0 tile
+    const tile = await cog.fetchAndParseTile(0, 0, 0, new AbortController());
+    expect(getRange.mock.calls[0][0]).toBe("https://example/world.tif");
+    expect(tile.width).toBe(2);
+    expect([...tile.data]).toEqual([100, 101, 102, 103]);
+    // one request for the header and one for the only tile in the overview
+    expect(getRange).toHaveBeenCalledTimes(2);
+
+    // zoom 1 tiles line up with the tiles in the full resolution image
+    getRange.mockClear();
+    const southEast = await cog.fetchAndParseTile(
+      1,
+      1,
+      1,
+      new AbortController(),
+    );
+    expect([...southEast.data]).toEqual([10, 11, 14, 15]);
+    expect(getRange).toHaveBeenCalledTimes(1);
+    // a single uncompressed 2x2 tile
+    expect(getRange.mock.calls[0][2]).toBe(16);
+  });
+
+  test("shared dem protocol gets terrarium pngs", async () => {
+    const { manager: cog } = manager("png.tif", world, worldOptions, 2);
+    const { data } = await cog.fetchTile(1, 0, 0, new AbortController());
+    expect(data.type).toBe("image/png");
+    const png = PNG.sync.read(
+      Buffer.from(await new Response(data).arrayBuffer()),
+    );
+    const decoded = decodeParsedImage(
+      2,
+      2,
+      "terrarium",
+      Uint8ClampedArray.from(png.data),
+    );
+    expect([...decoded.data]).toEqual([0, 1, 4, 5]);
+  });
+
+  test("resample longitude/latitude grids", async () => {
+    // 1 degree pixels east of the prime meridian and north of the equator, with no data in the corner
+    const { manager: cog } = manager(
+      "degrees.tif",
+      [
+        {
+          width: 180,
+          height: 90,
+          values: (col, row) => (col === 0 && row === 89 ? -1 : 1000 - row),
+        },
+      ],
+      {
+        tileSize: 64,
+        epsg: 4326,
+        origin: [0, 90],
+        scale: 1,
+        noData: -1,
+      },
+      256,
+    );
+    const tile = await cog.fetchAndParseTile(1, 1, 0, new AbortController());
+    expect(tile.width).toBe(256);
+    // latitude decreases going down
+    const middle = tile.data[128 * 256 + 128];
+    expect(middle).toBeLessThan(tile.data[10 * 256 + 128]);
+    // at 66.5 degrees north, about 23.5 pixels down from the top of the grid
+    expect(middle).toBeCloseTo(1000 - 23, 0);
+    // the corner only overlaps the missing pixel, and the pixel above it takes the value of its valid neighbors
+    expect(tile.data[255 * 256]).toBeNaN();
+    expect(tile.data[254 * 256]).toBeCloseTo(1000 - 88, 0);
+    // the western half of the world has no data
+    const west = await cog.fetchAndParseTile(1, 0, 0, new AbortController());
+    expect(west.data[128 * 256 + 10]).toBeNaN();
+  });
+
+  test("cancel requests", async () => {
+    const { manager: cog, getRange } = manager(
+      "cancel.tif",
+      world,
+      worldOptions,
+      2,
+    );
+    const abortController = new AbortController();
+    const result = cog.fetchAndParseTile(0, 0, 0, abortController);
+    abortController.abort();
+    await expect(result).rejects.toThrow();
+    expect(getRange.mock.calls[0][3].signal.aborted).toBe(true);
+  });
+});
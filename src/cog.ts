@@ -0,0 +1,538 @@
+import type { GridTransform, Projection } from "./resample";
+import { decompress } from "./utils";
+
+/** Bytes to read up front, which holds all of the image headers in a cloud optimized GeoTIFF. */
+const HEADER_BYTES = 65536;
+
+const TAG_NEW_SUBFILE_TYPE = 254;
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+const TAGS = new Set([
+  TAG_NEW_SUBFILE_TYPE,
+  TAG_IMAGE_WIDTH,
+  TAG_IMAGE_LENGTH,
+  TAG_BITS_PER_SAMPLE,
+  TAG_COMPRESSION,
+  TAG_SAMPLES_PER_PIXEL,
+  TAG_PLANAR_CONFIGURATION,
+  TAG_PREDICTOR,
+  TAG_TILE_WIDTH,
+  TAG_TILE_LENGTH,
+  TAG_TILE_OFFSETS,
+  TAG_TILE_BYTE_COUNTS,
+  TAG_SAMPLE_FORMAT,
+  TAG_MODEL_PIXEL_SCALE,
+  TAG_MODEL_TIEPOINT,
+  TAG_GEO_KEY_DIRECTORY,
+  TAG_GDAL_NODATA,
+]);
+
+const GEO_KEY_MODEL_TYPE = 1024;
+const GEO_KEY_RASTER_TYPE = 1025;
+const GEO_KEY_PROJECTED_CRS = 3072;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_TYPE_PIXEL_IS_POINT = 2;
+/** EPSG codes that have been used for web mercator. */
+const WEB_MERCATOR_CODES = [3857, 3785, 900913, 102100, 102113];
+
+/** Size in bytes of each TIFF field type. */
+const TYPE_SIZES: { [type: number]: number } = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  16: 8, // LONG8
+  17: 8, // SLONG8
+  18: 8, // IFD8
+};
+
+/** Reads `length` bytes starting at `offset` from the file, or fewer past the end of it. */
+export type ReadRange = (
+  offset: number,
+  length: number,
+) => Promise<ArrayBuffer>;
+
+/** The full resolution image or one of the overviews in a cloud optimized GeoTIFF. */
+export interface CogImage {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  /** Location of each tile in the file, in row-major order */
+  tileOffsets: number[];
+  tileByteCounts: number[];
+  bitsPerSample: number;
+  /** 1 for unsigned integers, 2 for signed integers, 3 for floating point */
+  sampleFormat: number;
+  samplesPerPixel: number;
+  compression: number;
+  predictor: number;
+  /** Value of pixels without data */
+  noData?: number;
+  littleEndian: boolean;
+  transform: GridTransform;
+}
+
+function readUint64(view: DataView, offset: number, littleEndian: boolean) {
+  return Number(view.getBigUint64(offset, littleEndian));
+}
+
+function readValues(
+  view: DataView,
+  type: number,
+  count: number,
+  littleEndian: boolean,
+): number[] {
+  const result: number[] = [];
+  const size = TYPE_SIZES[type];
+  for (let i = 0; i < count; i++) {
+    const offset = i * size;
+    switch (type) {
+      case 3:
+        result.push(view.getUint16(offset, littleEndian));
+        break;
+      case 4:
+        result.push(view.getUint32(offset, littleEndian));
+        break;
+      case 5:
+      case 10: {
+        const get = type === 5 ? "getUint32" : "getInt32";
+        result.push(
+          view[get](offset, littleEndian) / view[get](offset + 4, littleEndian),
+        );
+        break;
+      }
+      case 6:
+        result.push(view.getInt8(offset));
+        break;
+      case 8:
+        result.push(view.getInt16(offset, littleEndian));
+        break;
+      case 9:
+        result.push(view.getInt32(offset, littleEndian));
+        break;
+      case 11:
+        result.push(view.getFloat32(offset, littleEndian));
+        break;
+      case 12:
+        result.push(view.getFloat64(offset, littleEndian));
+        break;
+      case 16:
+      case 18:
+        result.push(readUint64(view, offset, littleEndian));
+        break;
+      case 17:
+        result.push(Number(view.getBigInt64(offset, littleEndian)));
+        break;
+      default:
+        result.push(view.getUint8(offset));
+    }
+  }
+  return result;
+}
+
+/** Returns the values of GeoTIFF keys that are stored inline in the key directory. */
+function parseGeoKeys(directory: number[] | undefined): {
+  [key: number]: number;
+} {
+  const keys: { [key: number]: number } = {};
+  // a 4 value header followed by 4 values per key, where the last one is the value itself for keys stored inline
+  for (let i = 4; directory && i + 3 < directory.length; i += 4) {
+    if (directory[i + 1] === 0) {
+      keys[directory[i]] = directory[i + 3];
+    }
+  }
+  return keys;
+}
+
+function getProjection(geoKeys: { [key: number]: number }): Projection {
+  const code = geoKeys[GEO_KEY_PROJECTED_CRS];
+  if (WEB_MERCATOR_CODES.includes(code)) {
+    return "EPSG:3857";
+  }
+  if (geoKeys[GEO_KEY_MODEL_TYPE] === MODEL_TYPE_GEOGRAPHIC) {
+    return "EPSG:4326";
+  }
+  throw new Error(
+    `Unsupported COG projection: ${code ? `EPSG:${code}` : "unknown"}`,
+  );
+}
+
+/**
+ * Reads the full resolution image and overviews from the header of a cloud optimized GeoTIFF in web mercator or
+ * longitude/latitude coordinates.
+ *
+ * @returns images from highest to lowest resolution
+ */
+export async function readCogImages(read: ReadRange): Promise<CogImage[]> {
+  const header = new DataView(await read(0, HEADER_BYTES));
+  const view = async (offset: number, length: number): Promise<DataView> =>
+    offset + length <= header.byteLength
+      ? new DataView(header.buffer, header.byteOffset + offset, length)
+      : new DataView(await read(offset, length));
+
+  const byteOrder = header.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    throw new Error("Not a TIFF file");
+  }
+  const littleEndian = byteOrder === 0x4949;
+  const bigTiff = header.getUint16(2, littleEndian) === 43;
+  const countSize = bigTiff ? 8 : 2;
+  const entrySize = bigTiff ? 20 : 12;
+  const offsetSize = bigTiff ? 8 : 4;
+  const readOffset = (data: DataView, offset: number) =>
+    bigTiff
+      ? readUint64(data, offset, littleEndian)
+      : data.getUint32(offset, littleEndian);
+
+  const ifds: Map<number, number[]>[] = [];
+  let ifdOffset = readOffset(header, bigTiff ? 8 : 4);
+  while (ifdOffset) {
+    const countView = await view(ifdOffset, countSize);
+    const count = bigTiff
+      ? readUint64(countView, 0, littleEndian)
+      : countView.getUint16(0, littleEndian);
+    const entries = await view(
+      ifdOffset + countSize,
+      count * entrySize + offsetSize,
+    );
+    const tags = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const entry = i * entrySize;
+      const tag = entries.getUint16(entry, littleEndian);
+      const type = entries.getUint16(entry + 2, littleEndian);
+      if (!TAGS.has(tag) || !TYPE_SIZES[type]) continue;
+      const valueCount = bigTiff
+        ? readUint64(entries, entry + 4, littleEndian)
+        : entries.getUint32(entry + 4, littleEndian);
+      const size = valueCount * TYPE_SIZES[type];
+      const valueOffset = entry + 4 + offsetSize;
+      // values that fit in the entry are stored inline, otherwise it points to them
+      const data =
+        size <= offsetSize
+          ? new DataView(
+              entries.buffer,
+              entries.byteOffset + valueOffset,
+              offsetSize,
+            )
+          : await view(readOffset(entries, valueOffset), size);
+      tags.set(tag, readValues(data, type, valueCount, littleEndian));
+    }
+    ifds.push(tags);
+    ifdOffset = readOffset(entries, count * entrySize);
+  }
+
+  // skip transparency masks
+  const images = ifds.filter(
+    (tags) => ((tags.get(TAG_NEW_SUBFILE_TYPE)?.[0] || 0) & 4) === 0,
+  );
+  if (images.length === 0) {
+    throw new Error("COG has no images");
+  }
+  const full = images[0];
+  const scale = full.get(TAG_MODEL_PIXEL_SCALE);
+  const tiepoint = full.get(TAG_MODEL_TIEPOINT);
+  if (!scale || !tiepoint) {
+    throw new Error("COG is missing georeferencing");
+  }
+  const geoKeys = parseGeoKeys(full.get(TAG_GEO_KEY_DIRECTORY));
+  const projection = getProjection(geoKeys);
+  const fullWidth = full.get(TAG_IMAGE_WIDTH)?.[0] || 0;
+  // tie point from a pixel to a coordinate
+  const [i, j, , tieX, tieY] = tiepoint;
+  let originX = tieX - i * scale[0];
+  let originY = tieY + j * scale[1];
+  // pixel is point rasters tie coordinates to the center of the pixel
+  if (geoKeys[GEO_KEY_RASTER_TYPE] === RASTER_TYPE_PIXEL_IS_POINT) {
+    originX -= scale[0] / 2;
+    originY += scale[1] / 2;
+  }
+  const noData = full.get(TAG_GDAL_NODATA);
+
+  return images.map((tags) => {
+    const get = (tag: number, defaultValue?: number): number => {
+      const value = tags.get(tag)?.[0] ?? defaultValue;
+      if (value === undefined) {
+        throw new Error(`COG is missing tag ${tag}`);
+      }
+      return value;
+    };
+    if (!tags.has(TAG_TILE_OFFSETS)) {
+      throw new Error("COG must be tiled");
+    }
+    if (get(TAG_PLANAR_CONFIGURATION, 1) !== 1) {
+      throw new Error("COG must have interleaved samples");
+    }
+    const width = get(TAG_IMAGE_WIDTH);
+    const factor = fullWidth / width;
+    return {
+      width,
+      height: get(TAG_IMAGE_LENGTH),
+      tileWidth: get(TAG_TILE_WIDTH),
+      tileHeight: get(TAG_TILE_LENGTH),
+      tileOffsets: tags.get(TAG_TILE_OFFSETS) || [],
+      tileByteCounts: tags.get(TAG_TILE_BYTE_COUNTS) || [],
+      bitsPerSample: get(TAG_BITS_PER_SAMPLE, 1),
+      sampleFormat: get(TAG_SAMPLE_FORMAT, 1),
+      samplesPerPixel: get(TAG_SAMPLES_PER_PIXEL, 1),
+      compression: get(TAG_COMPRESSION, 1),
+      predictor: get(TAG_PREDICTOR, 1),
+      // GDAL stores no-data as text, with a trailing null character
+      noData: noData
+        ? Number(String.fromCharCode(...noData).replace(/\0/g, ""))
+        : undefined,
+      littleEndian,
+      transform: {
+        projection,
+        originX,
+        originY,
+        resX: scale[0] * factor,
+        resY: scale[1] * factor,
+      },
+    };
+  });
+}
+
+/**
+ * Returns the lowest resolution image with pixels at least as small as a web mercator tile's pixels at zoom `z`,
+ * or the full resolution image when all of them are larger.
+ */
+export function selectOverview(
+  images: CogImage[],
+  z: number,
+  tileSize: number,
+): CogImage {
+  const tilePixelSize =
+    (images[0].transform.projection === "EPSG:4326" ? 360 : 40075016.68557849) /
+    ((1 << z) * tileSize);
+  let result = images[0];
+  for (const image of images) {
+    // allow for rounding in the size of overviews
+    if (image.transform.resX <= tilePixelSize * 1.01) {
+      result = image;
+    }
+  }
+  return result;
+}
+
+/** Decodes TIFF LZW compressed data, which uses codes of up to 12 bits with the most significant bit first. */
+export function decodeLzw(input: Uint8Array, length: number): Uint8Array {
+  const CLEAR = 256;
+  const END = 257;
+  const output = new Uint8Array(length);
+  let table: Uint8Array[] = [];
+  let codeLength = 9;
+  let previous: Uint8Array | undefined;
+  let position = 0;
+  let bit = 0;
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < 258; i++) {
+      table.push(Uint8Array.of(i));
+    }
+    codeLength = 9;
+    previous = undefined;
+  };
+  const append = (entry: Uint8Array, value: number) => {
+    const result = new Uint8Array(entry.length + 1);
+    result.set(entry);
+    result[entry.length] = value;
+    return result;
+  };
+  reset();
+  while (bit + codeLength <= input.length * 8 && position < length) {
+    let code = 0;
+    for (let i = 0; i < codeLength; i++, bit++) {
+      code = (code << 1) | ((input[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    if (code === END) break;
+    if (code === CLEAR) {
+      reset();
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+    } else if (previous && code === table.length) {
+      entry = append(previous, previous[0]);
+    } else {
+      throw new Error(`Invalid LZW code: ${code}`);
+    }
+    if (previous) {
+      table.push(append(previous, entry[0]));
+    }
+    output.set(entry.subarray(0, length - position), position);
+    position += entry.length;
+    previous = entry;
+    // encoders switch to longer codes one entry before they are needed
+    if (table.length + 1 >= 1 << codeLength && codeLength < 12) {
+      codeLength++;
+    }
+  }
+  return output;
+}
+
+/**
+ * Reverses the floating point predictor, which splits each row into planes of bytes from most to least significant
+ * and stores the difference between consecutive bytes.
+ *
+ * @returns little endian values
+ */
+function undoFloatingPointPredictor(
+  data: Uint8Array,
+  image: CogImage,
+): Uint8Array {
+  const bytes = image.bitsPerSample / 8;
+  const samples = image.tileWidth * image.samplesPerPixel;
+  const rowLength = samples * bytes;
+  const result = new Uint8Array(data.length);
+  for (let row = 0; row < image.tileHeight; row++) {
+    const start = row * rowLength;
+    for (let i = start + image.samplesPerPixel; i < start + rowLength; i++) {
+      data[i] += data[i - image.samplesPerPixel];
+    }
+    for (let sample = 0; sample < samples; sample++) {
+      for (let b = 0; b < bytes; b++) {
+        result[start + sample * bytes + bytes - 1 - b] =
+          data[start + b * samples + sample];
+      }
+    }
+  }
+  return result;
+}
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor;
+
+interface SampleType {
+  ArrayType: TypedArrayConstructor;
+  read: (view: DataView, offset: number, littleEndian: boolean) => number;
+}
+
+/** How to read samples for each sample format and bits per sample. */
+const SAMPLE_TYPES: { [format: number]: { [bits: number]: SampleType } } = {
+  1: {
+    8: { ArrayType: Uint8Array, read: (view, i) => view.getUint8(i) },
+    16: {
+      ArrayType: Uint16Array,
+      read: (view, i, le) => view.getUint16(i, le),
+    },
+    32: {
+      ArrayType: Uint32Array,
+      read: (view, i, le) => view.getUint32(i, le),
+    },
+  },
+  2: {
+    8: { ArrayType: Int8Array, read: (view, i) => view.getInt8(i) },
+    16: { ArrayType: Int16Array, read: (view, i, le) => view.getInt16(i, le) },
+    32: { ArrayType: Int32Array, read: (view, i, le) => view.getInt32(i, le) },
+  },
+  3: {
+    32: {
+      ArrayType: Float32Array,
+      read: (view, i, le) => view.getFloat32(i, le),
+    },
+    64: {
+      ArrayType: Float64Array,
+      read: (view, i, le) => view.getFloat64(i, le),
+    },
+  },
+};
+
+/**
+ * Decompresses and decodes one tile of a COG image.
+ *
+ * @returns the first sample of each pixel in row-major order, or `NaN` for pixels without data
+ */
+export async function decodeCogTile(
+  image: CogImage,
+  buffer: ArrayBuffer,
+): Promise<Float32Array> {
+  const { tileWidth, tileHeight, samplesPerPixel, bitsPerSample } = image;
+  const count = tileWidth * tileHeight * samplesPerPixel;
+  const sampleType = SAMPLE_TYPES[image.sampleFormat]?.[bitsPerSample];
+  if (!sampleType) {
+    throw new Error(
+      `Unsupported COG sample format: ${image.sampleFormat} with ${bitsPerSample} bits`,
+    );
+  }
+  const { ArrayType, read } = sampleType;
+  let data: Uint8Array = new Uint8Array(buffer);
+  switch (image.compression) {
+    case 1:
+      break;
+    case 5:
+      data = decodeLzw(data, count * ArrayType.BYTES_PER_ELEMENT);
+      break;
+    case 8:
+    case 32946:
+      data = await decompress(data, "deflate");
+      break;
+    default:
+      throw new Error(`Unsupported COG compression: ${image.compression}`);
+  }
+
+  let littleEndian = image.littleEndian;
+  if (image.predictor === 3) {
+    data = undoFloatingPointPredictor(data, image);
+    littleEndian = true;
+  }
+  const values = new ArrayType(count);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const bytes = ArrayType.BYTES_PER_ELEMENT;
+  for (let i = 0; i < count && (i + 1) * bytes <= view.byteLength; i++) {
+    values[i] = read(view, i * bytes, littleEndian);
+  }
+  if (image.predictor === 2) {
+    // horizontal differencing, which wraps around like the integer type does
+    const rowLength = tileWidth * samplesPerPixel;
+    for (let row = 0; row < tileHeight; row++) {
+      for (let i = samplesPerPixel; i < rowLength; i++) {
+        values[row * rowLength + i] +=
+          values[row * rowLength + i - samplesPerPixel];
+      }
+    }
+  }
+
+  const noData =
+    image.noData === undefined
+      ? NaN
+      : ArrayType === Float32Array
+        ? Math.fround(image.noData)
+        : image.noData;
+  const result = new Float32Array(tileWidth * tileHeight);
+  for (let i = 0; i < result.length; i++) {
+    const value = values[i * samplesPerPixel];
+    result[i] = value === noData ? NaN : value;
+  }
+  return result;
+}
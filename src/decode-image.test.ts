@@ -0,0 +1,52 @@
+import { decodeParsedImage } from "./decode-image";
+
+// rgba pixels for 0 and 1000 meters in each encoding
+const terrarium = Uint8ClampedArray.from([128, 0, 0, 255, 131, 232, 0, 255]);
+const mapbox = Uint8ClampedArray.from([1, 134, 160, 255, 1, 173, 176, 255]);
+
+test("decode terrarium", () => {
+  expect(decodeParsedImage(2, 1, "terrarium", terrarium)).toEqual({
+    width: 2,
+    height: 1,
+    data: Float32Array.from([0, 1000]),
+  });
+});
+
+test("decode mapbox", () => {
+  const { data } = decodeParsedImage(2, 1, "mapbox", mapbox);
+  expect(data[0]).toBeCloseTo(0);
+  expect(data[1]).toBeCloseTo(1000);
+});
+
+test("decode custom encoding", () => {
+  // the same formulas as terrarium and mapbox, expressed as factors
+  const customTerrarium = decodeParsedImage(
+    2,
+    1,
+    { redFactor: 256, greenFactor: 1, blueFactor: 1 / 256, baseShift: 32768 },
+    terrarium,
+  );
+  expect(customTerrarium.data).toEqual(Float32Array.from([0, 1000]));
+  const customMapbox = decodeParsedImage(
+    2,
+    1,
+    {
+      redFactor: 6553.6,
+      greenFactor: 25.6,
+      blueFactor: 0.1,
+      baseShift: 10000,
+    },
+    mapbox,
+  );
+  expect(customMapbox.data[0]).toBeCloseTo(0);
+  expect(customMapbox.data[1]).toBeCloseTo(1000);
+  // the alpha channel is ignored
+  expect(
+    decodeParsedImage(
+      1,
+      1,
+      { redFactor: 1, greenFactor: 2, blueFactor: 3, baseShift: 4 },
+      Uint8ClampedArray.from([10, 20, 30, 0]),
+    ).data,
+  ).toEqual(Float32Array.from([136]));
+});
@@ -1,12 +1,15 @@
 import type Actor from "./actor";
+import decodeLerc from "./lerc";
+import decodeRaw, { isRawEncoding } from "./raw";
 import {
+  decompress,
   isAborted,
   offscreenCanvasSupported,
   onAbort,
   shouldUseVideoFrame,
 } from "./utils";
 import type { MainThreadDispatch } from "./remote-dem-manager";
-import type { DemTile, Encoding } from "./types";
+import type { DemTile, Encoding, RawEncoding, RgbEncoding } from "./types";
 
 let offscreenCanvas: OffscreenCanvas;
 let offscreenContext: OffscreenCanvasRenderingContext2D | null;
@@ -18,7 +21,7 @@ let canvasContext: CanvasRenderingContext2D | null;
  */
 async function decodeImageModern(
   blob: Blob,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   abortController: AbortController,
 ): Promise<DemTile> {
   const img = await createImageBitmap(blob);
@@ -28,7 +31,7 @@ async function decodeImageModern(
 
 function decodeImageUsingOffscreenCanvas(
   img: ImageBitmap,
-  encoding: Encoding,
+  encoding: RgbEncoding,
 ): DemTile {
   if (!offscreenCanvas) {
     offscreenCanvas = new OffscreenCanvas(img.width, img.height);
@@ -46,7 +49,7 @@ function decodeImageUsingOffscreenCanvas(
  */
 async function decodeImageVideoFrame(
   blob: Blob,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   abortController: AbortController,
 ): Promise<DemTile> {
   const img = await createImageBitmap(blob);
@@ -87,7 +90,7 @@ async function decodeImageVideoFrame(
  */
 async function decodeImageOld(
   blob: Blob,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   abortController: AbortController,
 ): Promise<DemTile> {
   if (!canvas) {
@@ -118,7 +121,7 @@ async function decodeImageOld(
  */
 function decodeImageOnMainThread(
   blob: Blob,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   abortController: AbortController,
 ): Promise<DemTile> {
   return ((self as any).actor as Actor<MainThreadDispatch>).send(
@@ -141,9 +144,35 @@ function isWorker(): boolean {
   );
 }
 
-const defaultDecoder: (
+/**
+ * Parses a LERC raster into a DemTile directly from its bytes, which works in any environment.
+ */
+async function decodeLercBlob(
   blob: Blob,
-  encoding: Encoding,
+  abortController: AbortController,
+): Promise<DemTile> {
+  const buffer = await blob.arrayBuffer();
+  if (isAborted(abortController)) return null as any as DemTile;
+  return decodeLerc(buffer);
+}
+
+/**
+ * Parses raw elevation values into a DemTile, decompressing them first if they are gzipped.
+ */
+async function decodeRawBlob(
+  blob: Blob,
+  encoding: RawEncoding,
+  abortController: AbortController,
+): Promise<DemTile> {
+  const buffer = new Uint8Array(await blob.arrayBuffer());
+  const bytes = encoding.gzip ? await decompress(buffer, "gzip") : buffer;
+  if (isAborted(abortController)) return null as any as DemTile;
+  return decodeRaw(bytes, encoding);
+}
+
+const imageDecoder: (
+  blob: Blob,
+  encoding: RgbEncoding,
   abortController: AbortController,
 ) => Promise<DemTile> = shouldUseVideoFrame()
   ? decodeImageVideoFrame
@@ -153,11 +182,22 @@ const defaultDecoder: (
       ? decodeImageOnMainThread
       : decodeImageOld;
 
+const defaultDecoder = (
+  blob: Blob,
+  encoding: Encoding,
+  abortController: AbortController,
+): Promise<DemTile> =>
+  encoding === "lerc"
+    ? decodeLercBlob(blob, abortController)
+    : isRawEncoding(encoding)
+      ? decodeRawBlob(blob, encoding, abortController)
+      : imageDecoder(blob, encoding, abortController);
+
 export default defaultDecoder;
 
 function getElevations(
   img: ImageBitmap | HTMLImageElement,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   canvas: HTMLCanvasElement | OffscreenCanvas,
   canvasContext:
     | CanvasRenderingContext2D
@@ -178,13 +218,19 @@ function getElevations(
 export function decodeParsedImage(
   width: number,
   height: number,
-  encoding: Encoding,
+  encoding: RgbEncoding,
   input: Uint8ClampedArray,
 ): DemTile {
   const decoder: (r: number, g: number, b: number) => number =
-    encoding === "mapbox"
-      ? (r, g, b) => -10000 + (r * 256 * 256 + g * 256 + b) * 0.1
-      : (r, g, b) => r * 256 + g + b / 256 - 32768;
+    typeof encoding === "object"
+      ? (r, g, b) =>
+          r * encoding.redFactor +
+          g * encoding.greenFactor +
+          b * encoding.blueFactor -
+          encoding.baseShift
+      : encoding === "mapbox"
+        ? (r, g, b) => -10000 + (r * 256 * 256 + g * 256 + b) * 0.1
+        : (r, g, b) => r * 256 + g + b / 256 - 32768;
   const data = new Float32Array(width * height);
   for (let i = 0; i < input.length; i += 4) {
     data[i / 4] = decoder(input[i], input[i + 1], input[i + 2]);
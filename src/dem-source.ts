@@ -1,6 +1,7 @@
-import { LocalDemManager } from "./local-dem-manager";
 import {
+  decodeHillshadeOptions,
   decodeOptions,
+  encodeHillshadeOptions,
   encodeOptions,
   getOptionsForZoom,
   parseUrl,
@@ -9,10 +10,21 @@ import RemoteDemManager from "./remote-dem-manager";
 import type {
   DemManager,
   DemTile,
+  ElevationProfile,
+  ElevationProfileOptions,
+  ElevationStatistics,
+  ElevationStatisticsOptions,
+  Encoding,
   GlobalContourTileOptions,
+  HillshadeOptions,
+  LineString,
+  Polygon,
   Timing,
+  Viewshed,
+  ViewshedOptions,
 } from "./types";
 import type WorkerDispatch from "./worker-dispatch";
+import { createLocalDemManager } from "./worker-dispatch";
 import Actor from "./actor";
 import { Timer } from "./performance";
 
@@ -99,6 +111,8 @@ export class DemSource {
   sharedDemProtocolId: string;
   contourProtocolId: string;
   contourProtocolUrlBase: string;
+  hillshadeProtocolId: string;
+  hillshadeProtocolUrlBase: string;
   manager: DemManager;
   sharedDemProtocolUrl: string;
   timingCallbacks: Array<(timing: Timing) => void> = [];
@@ -107,22 +121,30 @@ export class DemSource {
     url,
     cacheSize = 100,
     id = "dem",
-    encoding = "terrarium",
-    maxzoom = 12,
+    encoding,
+    maxzoom,
     worker = true,
     timeoutMs = 10_000,
+    tileSize,
     actor,
   }: {
-    /** Remote DEM tile url using `{z}` `{x}` and `{y}` placeholders */
+    /**
+     * Remote DEM tile url using `{z}` `{x}` and `{y}` placeholders, `cog://` followed by the url of a cloud optimized
+     * GeoTIFF, `pmtiles://` followed by the url of a PMTiles archive, or `hgt://` followed by the url of SRTM HGT
+     * files with a `{name}` placeholder
+     */
     url: string;
     /** Number of most-recently-used tiles to cache */
     cacheSize?: number;
     /** Prefix for the maplibre protocol */
     id?: string;
-    encoding?: "terrarium" | "mapbox";
-    /** Maximum zoom of tiles contained in the source */
-    maxzoom: number;
+    /** `"terrarium"` (default), `"mapbox"`, the factors of a custom rgb encoding, `"lerc"` for LERC rasters, or the format of raw elevation values. PMTiles archives can set the named encodings in their metadata. */
+    encoding?: Encoding;
+    /** Maximum zoom of tiles contained in the source (default 12, or the max zoom of a PMTiles archive) */
+    maxzoom?: number;
     timeoutMs?: number;
+    /** Width and height of tiles resampled from a cloud optimized GeoTIFF or HGT files (default 512) */
+    tileSize?: number;
     /** Handle requests in a shared web worker to reduce UI-thread jank */
     worker?: boolean;
     actor?: Actor<WorkerDispatch>;
@@ -137,15 +159,20 @@ export class DemSource {
     this.contourProtocolId = `${protocolPrefix}-contour`;
     this.sharedDemProtocolUrl = `${this.sharedDemProtocolId}://{z}/{x}/{y}`;
     this.contourProtocolUrlBase = `${this.contourProtocolId}://{z}/{x}/{y}`;
-    const ManagerClass = worker ? RemoteDemManager : LocalDemManager;
-    this.manager = new ManagerClass({
+    this.hillshadeProtocolId = `${protocolPrefix}-hillshade`;
+    this.hillshadeProtocolUrlBase = `${this.hillshadeProtocolId}://{z}/{x}/{y}`;
+    const options = {
       demUrlPattern: url,
       cacheSize,
       encoding,
       maxzoom,
       timeoutMs,
+      tileSize,
       actor,
-    });
+    };
+    this.manager = worker
+      ? new RemoteDemManager(options)
+      : createLocalDemManager(options);
   }
 
   /** Registers a callback to be invoked with a performance report after each tile is requested. */
@@ -168,7 +195,93 @@ export class DemSource {
   }
 
   /**
-   * Adds contour and shared DEM protocol handlers to maplibre.
+   * Returns the elevation at a point, interpolated between the closest DEM pixels, or `NaN` where there is no data.
+   *
+   * @param zoom Zoom level of the tiles to use, defaults to the maximum zoom of the source
+   */
+  getElevation(
+    lng: number,
+    lat: number,
+    zoom?: number,
+    abortController?: AbortController,
+  ): Promise<number> {
+    return this.getElevations([[lng, lat]], zoom, abortController).then(
+      ([elevation]) => elevation,
+    );
+  }
+
+  /**
+   * Returns the elevation at each `[lng, lat]` point, reusing each tile for all of the points that fall in it.
+   *
+   * @param zoom Zoom level of the tiles to use, defaults to the maximum zoom of the source
+   */
+  getElevations(
+    points: [number, number][],
+    zoom?: number,
+    abortController?: AbortController,
+  ): Promise<number[]> {
+    return this.manager.fetchElevations(
+      points,
+      zoom,
+      abortController || new AbortController(),
+    );
+  }
+
+  /**
+   * Returns the elevation profile along a line, with elevations sampled every `options.interval` meters
+   * and the total ascent and descent along the way.
+   *
+   * @param line GeoJSON LineString geometry in `[lng, lat]` coordinates
+   */
+  getElevationProfile(
+    line: LineString,
+    options: ElevationProfileOptions = {},
+    abortController?: AbortController,
+  ): Promise<ElevationProfile> {
+    return this.manager.fetchElevationProfile(
+      line,
+      options,
+      abortController || new AbortController(),
+    );
+  }
+
+  /**
+   * Returns the area visible from an observer at a point within `options.radius` meters, as both a raster mask and
+   * a GeoJSON MultiPolygon geometry.
+   */
+  getViewshed(
+    lng: number,
+    lat: number,
+    options: ViewshedOptions,
+    abortController?: AbortController,
+  ): Promise<Viewshed> {
+    return this.manager.fetchViewshed(
+      lng,
+      lat,
+      options,
+      abortController || new AbortController(),
+    );
+  }
+
+  /**
+   * Returns statistics of the elevations in a bounding box or polygon, ignoring pixels without valid data.
+   *
+   * @param area `[west, south, east, north]` bounding box, or GeoJSON Polygon geometry in `[lng, lat]` coordinates
+   */
+  getElevationStatistics(
+    area: [number, number, number, number] | Polygon,
+    options: ElevationStatisticsOptions = {},
+    abortController?: AbortController,
+  ): Promise<ElevationStatistics> {
+    return this.manager.fetchElevationStatistics(
+      area,
+      options,
+      abortController || new AbortController(),
+    );
+  }
+
+  /**
+   * Adds contour, hillshade, and shared DEM protocol handlers to maplibre.
    *
    * @param maplibre maplibre global object
    */
@@ -177,6 +290,7 @@ export class DemSource {
   }) => {
     maplibre.addProtocol(this.sharedDemProtocolId, this.sharedDemProtocol);
     maplibre.addProtocol(this.contourProtocolId, this.contourProtocol);
+    maplibre.addProtocol(this.hillshadeProtocolId, this.hillshadeProtocol);
   };
 
   /**
@@ -243,7 +357,39 @@ export class DemSource {
     }
   };
 
+  /**
+   * Callback to be used with maplibre addProtocol to render hillshade PNG images according
+   * to options encoded in the tile URL pattern generated by `hillshadeProtocolUrl`.
+   */
+  hillshadeProtocolV4: AddProtocolAction = async (
+    request: RequestParameters,
+    abortController: AbortController,
+  ) => {
+    const timer = new Timer("main");
+    let timing: Timing;
+    try {
+      const [z, x, y] = parseUrl(request.url);
+      const options = decodeHillshadeOptions(request.url);
+      const data = await this.manager.fetchHillshadeTile(
+        z,
+        x,
+        y,
+        options,
+        abortController,
+        timer,
+      );
+      timing = timer.finish(request.url);
+      return { data: data.arrayBuffer };
+    } catch (error) {
+      timing = timer.error(request.url);
+      throw error;
+    } finally {
+      this.timingCallbacks.forEach((cb) => cb(timing));
+    }
+  };
+
   contourProtocol: V3OrV4Protocol = v3compat(this.contourProtocolV4);
+  hillshadeProtocol: V3OrV4Protocol = v3compat(this.hillshadeProtocolV4);
   sharedDemProtocol: V3OrV4Protocol = v3compat(this.sharedDemProtocolV4);
 
   /**
@@ -251,4 +397,10 @@ export class DemSource {
    */
   contourProtocolUrl = (options: GlobalContourTileOptions) =>
     `${this.contourProtocolUrlBase}?${encodeOptions(options)}`;
+
+  /**
+   * Returns a URL with the correct maplibre protocol prefix and all hillshade `options` encoded in request parameters.
+   */
+  hillshadeProtocolUrl = (options: HillshadeOptions = {}) =>
+    `${this.hillshadeProtocolUrlBase}?${encodeHillshadeOptions(options)}`;
 }
@@ -3,10 +3,17 @@ import Actor from "./actor";
 import WorkerDispatch from "./worker-dispatch";
 import { DemSource } from "./dem-source";
 import { MainThreadDispatch } from "./remote-dem-manager";
-import type { DemTile, Timing } from "./types";
+import type {
+  DemManagerInitizlizationParameters,
+  DemTile,
+  Timing,
+} from "./types";
 import { VectorTile } from "@mapbox/vector-tile";
 import Pbf from "pbf";
+import { PNG } from "pngjs";
 import { LocalDemManager } from "./local-dem-manager";
+import { CogDemManager } from "./cog-dem-manager";
+import { HgtDemManager } from "./hgt-dem-manager";
 
 beforeEach(() => {
   jest.useFakeTimers({ now: 0, doNotFake: ["performance"] });
@@ -63,6 +70,38 @@ const expectedElevations = Float32Array.from(
   ]),
 );
 
+/** Returns a manager in the current thread that decodes every tile to the same 4x4 `data`. */
+const testManager = ({
+  data = expectedElevations,
+  ...overrides
+}: Partial<DemManagerInitizlizationParameters> & {
+  data?: Float32Array;
+} = {}) =>
+  new LocalDemManager({
+    demUrlPattern: "https://example/{z}/{x}/{y}.png",
+    cacheSize: 100,
+    encoding: "terrarium",
+    maxzoom: 11,
+    timeoutMs: 10000,
+    decodeImage: async () => ({ width: 4, height: 4, data }),
+    getTile: async () => ({ data: new Blob() }),
+    ...overrides,
+  });
+
+test("e2e sources in the current thread pick the manager for their url", () => {
+  const manager = (url: string) =>
+    new DemSource({ url, worker: false }).manager;
+  expect(manager("cog://https://example/dem.tif")).toBeInstanceOf(
+    CogDemManager,
+  );
+  expect(manager("hgt://https://example/{name}.hgt")).toBeInstanceOf(
+    HgtDemManager,
+  );
+  const local = manager("https://example/{z}/{x}/{y}.png");
+  expect(local).toBeInstanceOf(LocalDemManager);
+  expect(local).not.toBeInstanceOf(CogDemManager);
+});
+
 test("e2e fetch tile and shared DEM protocol share cache", async () => {
   global.fetch = jest.fn().mockImplementation(async () => {
     jest.advanceTimersByTime(1);
@@ -286,19 +325,7 @@ test("decode image from worker", async () => {
 
 test("fake decode image and fetch tile", async () => {
   const getTileSpy = jest.fn().mockReturnValue(Promise.resolve({}));
-  const demManager = new LocalDemManager({
-    demUrlPattern: "https://example/{z}/{x}/{y}.png",
-    cacheSize: 100,
-    encoding: "terrarium",
-    maxzoom: 11,
-    timeoutMs: 10000,
-    decodeImage: async () => ({
-      width: 4,
-      height: 4,
-      data: expectedElevations,
-    }),
-    getTile: getTileSpy,
-  });
+  const demManager = testManager({ getTile: getTileSpy });
   const demTile = await demManager.fetchAndParseTile(
     1,
     2,
@@ -308,3 +335,680 @@ test("fake decode image and fetch tile", async () => {
   expect(demTile.data).toEqual(expectedElevations);
   expect(getTileSpy.mock.calls[0][0]).toBe("https://example/1/2/3.png");
 });
+
+test("e2e isoband tile", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  const contourTile: ArrayBuffer = (
+    await source.contourProtocol(
+      {
+        url: source
+          .contourProtocolUrl({
+            thresholds: {
+              10: 10,
+            },
+            buffer: 0,
+            isobandLayer: "bands",
+          })
+          .replace("{z}", "10")
+          .replace("{x}", "20")
+          .replace("{y}", "30"),
+      },
+      new AbortController(),
+    )
+  ).data;
+
+  const tile = new VectorTile(new Pbf(contourTile));
+
+  expect(tile.layers.contours.length).toBe(1);
+  expect(tile.layers.bands.length).toBe(2);
+  const low = tile.layers.bands.feature(0);
+  const high = tile.layers.bands.feature(1);
+  expect(low.type).toBe(3);
+  expect(low.properties).toEqual({ ele: 0 });
+  expect(high.properties).toEqual({ ele: 10 });
+  // the low band surrounds the high band
+  expect(low.loadGeometry()).toHaveLength(2);
+  expect(high.loadGeometry()).toHaveLength(1);
+  expect(low.bbox()).toEqual([0, 0, 4096, 4096]);
+});
+
+test("e2e isobands follow smoothed and simplified lines", async () => {
+  const manager = testManager();
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    {
+      levels: [10],
+      buffer: 1,
+      clipBuffer: 0,
+      smooth: 2,
+      simplify: 1,
+      isobandLayer: "bands",
+    },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  const points = (geometry: { x: number; y: number }[][]) =>
+    geometry
+      .flat()
+      .map(({ x, y }) => `${x},${y}`)
+      .sort();
+  const line = tile.layers.contours.feature(0).loadGeometry();
+  const low = tile.layers.bands.feature(0).loadGeometry();
+  const high = tile.layers.bands.feature(1).loadGeometry();
+  // the edge of the high band is the contour line, which is also the hole in the low band
+  expect(points(high)).toEqual(points(line));
+  expect(points(low.slice(1))).toEqual(points(line));
+  // and the low band stops at the edge of the tile instead of the buffer
+  expect(tile.layers.bands.feature(0).bbox()).toEqual([0, 0, 4096, 4096]);
+});
+
+test("e2e simplified contour tile", async () => {
+  const manager = testManager();
+  const fetchGeometry = async (simplify?: number) => {
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      { levels: [10], buffer: 0, simplify },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    return tile.layers.contours.feature(0).loadGeometry()[0];
+  };
+  const original = await fetchGeometry();
+  const simplified = await fetchGeometry(1);
+  expect(original.length).toBe(253);
+  expect(simplified.length).toBeLessThan(100);
+  expect(simplified[0]).toEqual(simplified[simplified.length - 1]);
+});
+
+test("e2e contour tile with explicit elevations", async () => {
+  const manager = testManager();
+  const fetchProperties = async (levels: number[]) => {
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      { levels, elevations: [7, 12], buffer: 0 },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    const properties = [];
+    for (let i = 0; i < tile.layers.contours.length; i++) {
+      properties.push(tile.layers.contours.feature(i).properties);
+    }
+    return properties;
+  };
+  expect(await fetchProperties([])).toEqual([
+    { ele: 7, level: 0 },
+    { ele: 12, level: 0 },
+  ]);
+  expect(await fetchProperties([4, 6])).toEqual([
+    { ele: 7, level: 0 },
+    { ele: 12, level: 1 },
+  ]);
+});
+
+test("e2e contour tile with non-nested intervals", async () => {
+  const manager = testManager();
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    { levels: [4, 6], buffer: 0 },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  const properties = [];
+  for (let i = 0; i < tile.layers.contours.length; i++) {
+    properties.push(tile.layers.contours.feature(i).properties);
+  }
+  expect(properties).toEqual([
+    { ele: 6, level: 1 },
+    { ele: 8, level: 0 },
+    { ele: 12, level: 1 },
+  ]);
+});
+
+test("e2e isoband tile with non-nested intervals", async () => {
+  const manager = testManager();
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    { levels: [4, 6], buffer: 0, isobandLayer: "bands" },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  const bands = [];
+  for (let i = 0; i < tile.layers.bands.length; i++) {
+    bands.push(tile.layers.bands.feature(i).properties.ele);
+  }
+  // includes the band below the lowest line
+  expect(bands).toEqual([4, 8, 12]);
+});
+
+test("e2e contour tile with higher ground on the right", async () => {
+  const manager = testManager();
+  const fetchFeature = async (uphill?: "left" | "right") => {
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      { levels: [10], buffer: 0, uphill },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    const feature = tile.layers.contours.feature(0);
+    const ring = feature.loadGeometry()[0];
+    let area = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      area += ring[i].x * ring[i + 1].y - ring[i + 1].x * ring[i].y;
+    }
+    return { area, properties: feature.properties };
+  };
+  const left = await fetchFeature();
+  const right = await fetchFeature("right");
+  // the hill is in the middle of the tile, so the line goes around it counter-clockwise
+  expect(left.area).toBeLessThan(0);
+  expect(left.properties).toEqual({ ele: 10, level: 0 });
+  expect(right.area).toBe(-left.area);
+  expect(right.properties).toEqual({ ele: 10, level: 0 });
+});
+
+test("e2e contour tile with closed rings across tile edges", async () => {
+  const low = [5, 5, 5, 5];
+  const high = [5, 5, 5, 15];
+  const fetchProperties = async (
+    getData: (x: number, y: number) => number[][],
+  ) => {
+    const blobs = new Map<Blob, Float32Array>();
+    const manager = testManager({
+      decodeImage: async (blob) => ({
+        width: 4,
+        height: 4,
+        data: blobs.get(blob) as Float32Array,
+      }),
+      getTile: async (url) => {
+        const [x, y] = url.split(/[/.]/).slice(-3, -1).map(Number);
+        const data = new Blob();
+        blobs.set(data, Float32Array.from(flattenDeep(getData(x, y))));
+        return { data };
+      },
+    });
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      {
+        levels: [10],
+        buffer: 1,
+        closedKey: "closed",
+        depressionKey: "depression",
+      },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    const properties = [];
+    for (let i = 0; i < tile.layers.contours.length; i++) {
+      properties.push(tile.layers.contours.feature(i).properties);
+    }
+    return properties;
+  };
+
+  // hill on the edge between this tile and the one to the east
+  expect(
+    await fetchProperties((x, y) =>
+      x === 20 && y === 30
+        ? [low, high, high, low]
+        : x === 21 && y === 30
+          ? [low, high.slice().reverse(), high.slice().reverse(), low]
+          : [low, low, low, low],
+    ),
+  ).toEqual([{ ele: 10, level: 0, closed: true, depression: false }]);
+
+  // the same shape, but a pit
+  expect(
+    await fetchProperties((x, y) =>
+      (x === 20 && y === 30
+        ? [low, high, high, low]
+        : x === 21 && y === 30
+          ? [low, high.slice().reverse(), high.slice().reverse(), low]
+          : [low, low, low, low]
+      ).map((row) => row.map((value) => 20 - value)),
+    ),
+  ).toEqual([{ ele: 10, level: 0, closed: true, depression: true }]);
+
+  // ridges running through every tile never close
+  expect(await fetchProperties(() => [high, high, high, high])).toEqual([
+    { ele: 10, level: 0, closed: false },
+  ]);
+
+  // hills in the middle of every tile
+  expect(
+    await fetchProperties(() => [
+      [5, 5, 5, 5],
+      [5, 15, 15, 5],
+      [5, 15, 15, 5],
+      [5, 5, 5, 5],
+    ]),
+  ).toEqual([{ ele: 10, level: 0, closed: true, depression: false }]);
+});
+
+test("e2e contour tile with peaks", async () => {
+  const manager = testManager();
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    { levels: [10], peakLayer: "peaks", multiplier: 2 },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  expect(tile.layers.peaks.length).toBe(1);
+  const peak = tile.layers.peaks.feature(0);
+  expect(peak.type).toBe(1);
+  expect(peak.properties).toEqual({ ele: 30 });
+  // the flat summit is marked at the center of its top-left pixel
+  expect(peak.loadGeometry()).toEqual([[{ x: 1536, y: 1536 }]]);
+});
+
+test("e2e contour tile with slope classes", async () => {
+  const manager = testManager({
+    // flat on the left half and high on the right half
+    data: new Float32Array(16).map((_, i) => (i % 4 < 2 ? 0 : 5000)),
+  });
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    { levels: [5000], slopeLayer: "slopes", slopeClasses: [10, 45] },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  const slopes = tile.layers.slopes;
+  expect(slopes.length).toBeGreaterThan(0);
+  for (let i = 0; i < slopes.length; i++) {
+    const feature = slopes.feature(i);
+    expect(feature.type).toBe(3);
+    expect([10, 45]).toContain(feature.properties.slope);
+  }
+  const steep = Array.from({ length: slopes.length }, (_, i) =>
+    slopes.feature(i),
+  ).find((feature) => feature.properties.slope === 45);
+  expect(steep).toBeDefined();
+  // the tile wraps around, so there are cliffs in the middle of the tile and at its edges
+  const xs = steep!
+    .loadGeometry()
+    .flat()
+    .map(({ x }) => x);
+  // steep slopes on both sides of the middle cliff, and flat ground between the cliffs
+  expect(xs.some((x) => x > 1024 && x < 2048)).toBe(true);
+  expect(xs.some((x) => x > 2048 && x < 3072)).toBe(true);
+  expect(xs.some((x) => x > 900 && x < 1150)).toBe(false);
+});
+
+test("e2e contour tile with streams", async () => {
+  const manager = testManager({
+    // a valley down the third column of each tile, sloping down to the south
+    data: new Float32Array(16).map(
+      (_, i) => [20, 10, 0, 10][i % 4] + 3 - Math.floor(i / 4),
+    ),
+  });
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    { levels: [10], streamLayer: "streams", streamThreshold: 8 },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  expect(tile.layers.streams.length).toBe(1);
+  const stream = tile.layers.streams.feature(0);
+  expect(stream.type).toBe(2);
+  // the tiles repeat, so the top row of each tile drains north into the bottom of the tile above it
+  // and the stream collects the 3 rows below that plus the top row of the tile below
+  expect(stream.properties).toEqual({ accumulation: 16 });
+  expect(stream.loadGeometry()).toMatchObject([
+    [
+      { x: 2560, y: 2560 },
+      { x: 2560, y: 3584 },
+    ],
+  ]);
+});
+
+test("e2e contour tile with label anchors", async () => {
+  const manager = testManager();
+  const result = await manager.fetchContourTile(
+    10,
+    20,
+    30,
+    {
+      levels: [5, 10],
+      buffer: 0,
+      uphill: "right",
+      labelLayer: "labels",
+      labelSpacing: 100,
+    },
+    new AbortController(),
+  );
+  const tile = new VectorTile(new Pbf(result.arrayBuffer));
+  expect(tile.layers.labels.length).toBeGreaterThan(1);
+  for (let i = 0; i < tile.layers.labels.length; i++) {
+    const label = tile.layers.labels.feature(i);
+    expect(label.properties).toMatchObject({ ele: 10, level: 1 });
+    // the top of each label points toward the hill in the middle of the tile
+    const [[{ x, y }]] = label.loadGeometry();
+    const angle = ((label.properties.angle as number) * Math.PI) / 180;
+    expect(
+      Math.sin(angle) * (2048 - x) - Math.cos(angle) * (2048 - y),
+    ).toBeGreaterThan(0);
+  }
+});
+
+test("e2e contour tile without tiny lines and rings", async () => {
+  const fetchLines = async (
+    data: number[][],
+    options: { minLength?: number; minArea?: number },
+  ) => {
+    const manager = testManager({
+      data: Float32Array.from(flattenDeep(data)),
+    });
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      { levels: [10], ...options },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    return tile.layers.contours?.length
+      ? tile.layers.contours.feature(0).loadGeometry().length
+      : 0;
+  };
+  const hill = [
+    [5, 5, 5, 5],
+    [5, 15, 15, 5],
+    [5, 15, 15, 5],
+    [5, 5, 5, 5],
+  ];
+  // the ring around the hill is about 200px across
+  expect(await fetchLines(hill, { minArea: 10000 })).toBe(1);
+  expect(await fetchLines(hill, { minArea: 100000 })).toBe(0);
+  expect(await fetchLines(hill, { minLength: 100000 })).toBe(1);
+
+  // lines that cross the tile are kept no matter how short the part in the buffer is
+  const ridges = [
+    [5, 5, 5, 15],
+    [5, 5, 5, 15],
+    [5, 5, 5, 15],
+    [5, 5, 5, 15],
+  ];
+  expect(await fetchLines(ridges, { minLength: 100000 })).toBe(3);
+
+  // short lines that end at missing data
+  const bump = [
+    [5, 5, 5, 5],
+    [5, 15, 5, 5],
+    [-20000, -20000, -20000, -20000],
+    [-20000, -20000, -20000, -20000],
+  ];
+  expect(await fetchLines(bump, {})).toBe(1);
+  expect(await fetchLines(bump, { minLength: 1000 })).toBe(0);
+});
+
+test("e2e contour lines clipped exactly to the buffer", async () => {
+  const manager = testManager({
+    // ridges running north-south through every tile
+    data: Float32Array.from(flattenDeep(Array(4).fill([5, 5, 5, 15]))),
+  });
+  const fetchLines = async (options: {
+    buffer?: number;
+    clipBuffer?: number;
+  }) => {
+    const result = await manager.fetchContourTile(
+      10,
+      20,
+      30,
+      { levels: [10], ...options },
+      new AbortController(),
+    );
+    const tile = new VectorTile(new Pbf(result.arrayBuffer));
+    return tile.layers.contours
+      .feature(0)
+      .loadGeometry()
+      .map((line) => [line[0], line[line.length - 1]]);
+  };
+  const ends = (lines: { x: number; y: number }[][]) =>
+    lines.map(([start, end]) => [start.x, start.y, end.x, end.y]);
+
+  // 128px after subsampling, so each pixel is 32 tile units
+  expect(ends(await fetchLines({ buffer: 1 }))).toEqual([
+    [3072, -32, 3072, 4128],
+    [0, 4128, 0, -32],
+    [4096, 4128, 4096, -32],
+  ]);
+  expect(ends(await fetchLines({ clipBuffer: 100 }))).toEqual([
+    [3072, -100, 3072, 4196],
+    [0, 4196, 0, -100],
+    [4096, 4196, 4096, -100],
+  ]);
+});
+
+test("e2e hillshade tile", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  const url = source
+    .hillshadeProtocolUrl({ azimuth: 315, zFactor: 1000 })
+    .replace("{z}", "10")
+    .replace("{x}", "20")
+    .replace("{y}", "30");
+  expect(url).toBe("dem-hillshade://10/20/30?azimuth=315&zFactor=1000");
+  const timings: Timing[] = [];
+  source.onTiming((timing) => timings.push(timing));
+  const result = await source.hillshadeProtocol({ url }, new AbortController());
+  const png = PNG.sync.read(Buffer.from(result.data));
+  expect(png.width).toBe(4);
+  expect(png.height).toBe(4);
+  const gray = (x: number, y: number) => png.data[(y * 4 + x) * 4];
+  // the north-west side of the hill faces the sun and the south-east side faces away
+  expect(gray(1, 1)).toBeGreaterThan(gray(0, 3));
+  expect(gray(2, 2)).toBeLessThan(gray(0, 3));
+  expect(png.data[3]).toBe(255);
+  // shading and encoding count as processing, under their own mark
+  expect(timings).toHaveLength(1);
+  expect(timings[0].marks.hillshade).toHaveLength(1);
+  expect(timings[0].marks.isoline).toBeUndefined();
+  expect(timings[0].process).toBeDefined();
+});
+
+test("e2e elevation at points", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  // every tile is a hill in the middle of flat ground
+  expect(await source.getElevation(-90, 66.51326044311186, 1)).toBe(15);
+  // points away from the edge of a tile only need that tile
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+  expect(await source.getElevation(0, 0, 1)).toBe(5);
+  const elevations = await source.getElevations(
+    [
+      [-135, 0],
+      [-135, 40.97989806962013],
+      [-112.5, 40.97989806962013],
+      [-90, 0],
+    ],
+    1,
+  );
+  [5, 7.5, 10, 5].forEach((expected, i) =>
+    expect(elevations[i]).toBeCloseTo(expected),
+  );
+  // points on the edge of a tile need its neighbors, which are all 4 tiles at zoom 1
+  expect(global.fetch).toHaveBeenCalledTimes(4);
+  // but only the neighbors across that edge
+  expect(await source.getElevation(0, 52.48278022207821, 5)).toBe(5);
+  expect(global.fetch).toHaveBeenCalledTimes(6);
+});
+
+test("e2e elevation profile", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  // across the middle row of a tile at zoom 1, over the hill in the middle of the tile
+  const lat = 66.51326044311186;
+  const profile = await source.getElevationProfile(
+    {
+      coordinates: [
+        [-180, lat],
+        [0, lat],
+      ],
+    },
+    { interval: 100_000, zoom: 1 },
+  );
+  const length = profile.distances[profile.distances.length - 1];
+  expect(profile.distances.length).toBe(Math.ceil(length / 100_000) + 1);
+  expect(profile.distances[1]).toBe(100_000);
+  expect(profile.elevations[0]).toBeCloseTo(5);
+  expect(profile.elevations[profile.elevations.length - 1]).toBeCloseTo(5);
+  expect(profile).toMatchObject({
+    min: 5,
+    max: 15,
+    ascent: 10,
+    descent: 10,
+  });
+
+  const abortController = new AbortController();
+  const canceled = source.getElevationProfile(
+    {
+      coordinates: [
+        [0, 0],
+        [1, 1],
+      ],
+    },
+    { zoom: 5 },
+    abortController,
+  );
+  abortController.abort();
+  await expect(canceled).rejects.toThrow();
+});
+
+test("e2e viewshed", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  // from the top of the hill in the middle of a zoom 1 tile, where each pixel is about 2000km across
+  const result = await source.getViewshed(-90, 66.51326044311186, {
+    radius: 5_000_000,
+    zoom: 1,
+  });
+  // the window is cut off at the top of the map
+  expect(result.width).toBe(6);
+  expect(result.height).toBe(5);
+  expect(result.mask.length).toBe(30);
+  // only the flat top of the hill is visible, the ground below it is hidden behind its edge
+  expect([...result.mask].join("")).toBe(
+    ["000000", "001100", "001100", "000000", "000000"].join(""),
+  );
+  // the window starts 1 pixel past the antimeridian
+  const [west, south, east, north] = result.bounds;
+  expect(west).toBeCloseTo(-225);
+  expect(east).toBeCloseTo(45);
+  expect(north).toBeCloseTo(85.0511287798);
+  expect(south).toBeCloseTo(-40.97989806962013);
+  expect(result.geometry.type).toBe("MultiPolygon");
+  expect(result.geometry.coordinates.length).toBeGreaterThan(0);
+  for (const [lng, lat] of result.geometry.coordinates.flat(2)) {
+    expect(lng).toBeGreaterThanOrEqual(west);
+    expect(lng).toBeLessThanOrEqual(east);
+    expect(lat).toBeGreaterThanOrEqual(south);
+    expect(lat).toBeLessThanOrEqual(north);
+  }
+});
+
+test("e2e viewshed tile limit", async () => {
+  const fetchSpy = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  global.fetch = fetchSpy;
+  await expect(
+    source.getViewshed(10, 0, { radius: 500_000, zoom: 11 }),
+  ).rejects.toThrow("Viewshed radius of 500000m covers more than 16 tiles");
+  await expect(
+    source.getViewshed(10, 0, { radius: 500_000, zoom: 11, maxTiles: 4 }),
+  ).rejects.toThrow("covers more than 4 tiles at zoom 11");
+  expect(fetchSpy).not.toHaveBeenCalled();
+
+  // without a zoom, picks the highest zoom that fits
+  const result = await source.getViewshed(10, 0, { radius: 500_000 });
+  expect(fetchSpy.mock.calls.length).toBeGreaterThan(0);
+  expect(fetchSpy.mock.calls.length).toBeLessThanOrEqual(16);
+  expect(result.bounds[2] - result.bounds[0]).toBeGreaterThan(9);
+});
+
+test("e2e elevation statistics", async () => {
+  global.fetch = jest.fn().mockImplementation(async () => {
+    jest.advanceTimersByTime(1);
+    return new Response(
+      new Blob([Uint8Array.from([1, 2])], { type: "image/png" }),
+      {
+        status: 200,
+      },
+    );
+  });
+  // the north-west tile at zoom 2, with a hill in the middle of flat ground
+  const result = await source.getElevationStatistics(
+    [-180, 66.51326044311186, -90, 85.0511287798066],
+    { maxTiles: 1, percentiles: [50, 90], binSize: 10 },
+  );
+  expect(global.fetch).toHaveBeenCalledTimes(1);
+  expect(result).toEqual({
+    zoom: 2,
+    count: 16,
+    min: 5,
+    max: 15,
+    mean: 7.5,
+    percentiles: { 50: 5, 90: 15 },
+    histogram: { start: 0, binSize: 10, counts: [12, 4] },
+  });
+});
@@ -137,3 +137,37 @@ test("subsample and average centers alignment between tiles", () => {
   expect(subsampled?.get(2, 2)).toBe(notSubsampled?.get(1, 1));
   expect(subsampled?.get(-2, -2)).toBe(notSubsampled?.get(-1, -1));
 });
+
+test("interpolate between pixel centers", () => {
+  const virtualTile = HeightTile.combineNeighbors(neighbors)!;
+  expect(virtualTile.interpolate(0.5, 0.5)).toBe(14);
+  expect(virtualTile.interpolate(1, 0.5)).toBe(14.5);
+  expect(virtualTile.interpolate(1, 1)).toBe(17.5);
+  // the tile edge falls between pixels of neighboring tiles
+  expect(virtualTile.interpolate(0, 0)).toBe(10.5);
+  expect(virtualTile.interpolate(2, 1.5)).toBe(21.5);
+});
+
+test("interpolate skips missing values", () => {
+  const tile = HeightTile.fromRawDem({
+    width: 2,
+    height: 2,
+    data: Float32Array.from([NaN, 1, 10000, 3]),
+  });
+  expect(tile.interpolate(1, 1)).toBe(2);
+  expect(tile.interpolate(0.5, 1)).toBe(2);
+  expect(tile.interpolate(0.5, 0.5)).toBe(1);
+  expect(tile.interpolate(0, 0)).toBeNaN();
+});
+
+test("range of valid values", () => {
+  const tile = HeightTile.fromRawDem({
+    width: 2,
+    height: 2,
+    data: Float32Array.from([3, NaN, -1, 2]),
+  });
+  expect(tile.range()).toEqual([-1, 3]);
+  const combined = HeightTile.combineNeighbors(neighbors);
+  expect(combined?.range()).toEqual([14, 21]);
+  expect(combined?.range(1)).toEqual([7, 28]);
+});
@@ -6,6 +6,11 @@ function defaultIsValid(number: number): boolean {
   return !isNaN(number) && number >= MIN_VALID_M && number <= MAX_VALID_M;
 }
 
+/** Linear interpolation that falls back to whichever value is valid when the other is `NaN`. */
+function lerp(a: number, b: number, f: number): number {
+  return isNaN(a) ? b : isNaN(b) ? a : a + (b - a) * f;
+}
+
 /** A tile containing elevation values aligned to a grid. */
 export class HeightTile {
   get: (x: number, y: number) => number;
@@ -90,8 +95,6 @@ export class HeightTile {
    * The original and result tile are assumed to represent values taken at the center of each pixel.
    */
   subsamplePixelCenters = (factor: number): HeightTile => {
-    const lerp = (a: number, b: number, f: number) =>
-      isNaN(a) ? b : isNaN(b) ? a : a + (b - a) * f;
     if (factor <= 1) return this;
     const sub = 0.5 - 1 / (2 * factor);
     const blerper = (x: number, y: number) => {
@@ -112,6 +115,23 @@ export class HeightTile {
     return new HeightTile(this.width * factor, this.height * factor, blerper);
   };
 
+  /**
+   * Returns the height at a fractional position in the tile using bilinear interpolation between the 4
+   * closest pixels, where `0, 0` is the top-left corner of the tile and values are taken at the center of
+   * each pixel. Pixels without data are ignored, so this is only `NaN` if all 4 pixels are.
+   */
+  interpolate = (x: number, y: number): number => {
+    const dx = x - 0.5;
+    const dy = y - 0.5;
+    const ox = Math.floor(dx);
+    const oy = Math.floor(dy);
+    const fx = dx - ox;
+    const fy = dy - oy;
+    const top = lerp(this.get(ox, oy), this.get(ox + 1, oy), fx);
+    const bottom = lerp(this.get(ox, oy + 1), this.get(ox + 1, oy + 1), fx);
+    return lerp(top, bottom, fy);
+  };
+
   /**
    * Assumes the input tile represented measurements taken at the center of each pixel, and
    * returns a new tile where values are the height at the top-left of each pixel by averaging
@@ -143,6 +163,22 @@ export class HeightTile {
           (x, y) => this.get(x, y) * multiplier,
         );
 
+  /** Returns the `[min, max]` of all valid values from `-buffer, -buffer` to `width + buffer, height + buffer`. */
+  range = (buffer: number = 0): [number, number] => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let y = -buffer; y < this.height + buffer; y++) {
+      for (let x = -buffer; x < this.width + buffer; x++) {
+        const value = this.get(x, y);
+        if (!isNaN(value)) {
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+    }
+    return [min, max];
+  };
+
   /**
    * Precompute every value from `-bufer, -buffer` to `width + buffer, height + buffer` and serve them
    * out of a `Float32Array`. Until this method is called, all `get` requests are lazy and call all previous
@@ -0,0 +1,214 @@
+import AsyncCache from "./cache";
+import { HeightTile } from "./height-tile";
+import { hgtCellsInBounds, hgtElevation, hgtFileName, parseHgt } from "./hgt";
+import type { HgtGrid, HgtResolver } from "./hgt";
+import { LocalDemManager } from "./local-dem-manager";
+import { encodeTerrariumPng } from "./png";
+import resampleToTile from "./resample";
+import type {
+  DemManagerInitizlizationParameters,
+  DemTile,
+  FetchResponse,
+} from "./types";
+import { isAborted, tileToLngLat, withTimeout } from "./utils";
+import type { Timer } from "./performance";
+
+const HGT_PREFIX = "hgt://";
+
+/** Returns true for errors from a `getTile` function that mean the file doesn't exist, as opposed to failing to read it. */
+function isMissingFile(error: any): boolean {
+  return (
+    error?.code === "ENOENT" ||
+    /^Bad response: 404 /.test(String(error?.message))
+  );
+}
+
+/** Returns true for `hgt://https://.../{name}.hgt` urls that point to a folder of SRTM HGT files. */
+export function isHgtUrl(url: string): boolean {
+  return url.startsWith(HGT_PREFIX);
+}
+
+/** Returns a resolver that fills in the SRTM name of each cell, like `N47E011`, for `{name}` in a url pattern. */
+export function hgtUrlResolver(urlPattern: string): HgtResolver {
+  const pattern = urlPattern.replace(HGT_PREFIX, "");
+  return (bounds) =>
+    hgtCellsInBounds(bounds).map(([west, south]) => ({
+      url: pattern.replace("{name}", hgtFileName(west, south)),
+      west,
+      south,
+    }));
+}
+
+/**
+ * Caches and processes DEM tiles resampled from one degree longitude/latitude grid files like SRTM HGT in
+ * the current thread, reading every file that each tile covers.
+ */
+export class HgtDemManager extends LocalDemManager {
+  tileSize: number;
+  resolveFiles: HgtResolver;
+  maxFiles: number;
+  /** Files that don't exist are cached as `undefined` */
+  fileCache: AsyncCache<string, HgtGrid | undefined>;
+
+  constructor(
+    options: DemManagerInitizlizationParameters & {
+      /** Defaults to filling in `{name}` in the url pattern for every cell a tile covers */
+      resolveFiles?: HgtResolver;
+      /** Tiles that cover more files than this have no data, instead of reading every file at once (default 9) */
+      maxFiles?: number;
+      /** Number of parsed files to keep in memory, defaults to `maxFiles` */
+      fileCacheSize?: number;
+    },
+  ) {
+    super(options);
+    this.tileSize = options.tileSize || 512;
+    this.resolveFiles =
+      options.resolveFiles || hgtUrlResolver(options.demUrlPattern);
+    this.maxFiles = options.maxFiles ?? 9;
+    // each file holds up to 25MB of samples, so only keep the block of cells around the latest tiles
+    this.fileCache = new AsyncCache(options.fileCacheSize ?? this.maxFiles);
+  }
+
+  /** Encodes tiles as terrarium PNGs so the shared DEM protocol works the same as with tile sources. */
+  fetchTile(
+    z: number,
+    x: number,
+    y: number,
+    parentAbortController: AbortController,
+    timer?: Timer,
+  ): Promise<FetchResponse> {
+    return this.tileCache.get(
+      `${z}/${x}/${y}`,
+      async (_, childAbortController) => {
+        const tile = await this.fetchAndParseTile(
+          z,
+          x,
+          y,
+          childAbortController,
+          timer,
+        );
+        return {
+          data: new Blob([await encodeTerrariumPng(tile)], {
+            type: "image/png",
+          }),
+        };
+      },
+      parentAbortController,
+    );
+  }
+
+  fetchAndParseTile = (
+    z: number,
+    x: number,
+    y: number,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<DemTile> => {
+    const key = `${z}/${x}/${y}`;
+    timer?.useTile(`${this.demUrlPattern}#${key}`);
+    return this.parsedCache.get(
+      key,
+      async (_, childAbortController) => {
+        const mark = timer?.marker("fetch");
+        const [west, north] = tileToLngLat(x, y, z);
+        const [east, south] = tileToLngLat(x + 1, y + 1, z);
+        const size = this.tileSize;
+        const empty = () => ({
+          width: size,
+          height: size,
+          data: new Float32Array(size * size).fill(NaN),
+        });
+        const files = await this.resolveFiles([west, south, east, north], z);
+        if (files.length > this.maxFiles) {
+          mark?.();
+          return empty();
+        }
+        const grids = new Map<string, HgtGrid>();
+        await Promise.all(
+          files.map((file) =>
+            this.fileCache
+              .get(
+                file.url,
+                async (url, fileAbortController) => {
+                  timer?.fetchTile(url);
+                  let data: ArrayBuffer;
+                  try {
+                    const response = await withTimeout(
+                      this.timeoutMs,
+                      this.getTile(url, fileAbortController),
+                      fileAbortController,
+                    );
+                    data = await response.data.arrayBuffer();
+                  } catch (e) {
+                    // SRTM leaves out files that only cover ocean, so treat them as voids
+                    if (!isAborted(fileAbortController) && isMissingFile(e)) {
+                      return undefined;
+                    }
+                    throw e;
+                  }
+                  return parseHgt(data);
+                },
+                childAbortController,
+              )
+              .then((grid) => {
+                if (grid) grids.set(`${file.west}/${file.south}`, grid);
+              }),
+          ),
+        );
+        mark?.();
+        if (isAborted(childAbortController)) throw new Error("canceled");
+
+        const decodeMark = timer?.marker("decode");
+        if (grids.size === 0) {
+          decodeMark?.();
+          return empty();
+        }
+        const sizes = new Set([...grids.values()].map((grid) => grid.size));
+        if (sizes.size > 1) {
+          throw new Error(
+            `Files for ${key} have different sizes: ${[...sizes].join(", ")}`,
+          );
+        }
+        // stitch the files into one grid, where neighboring files share the samples along their edges
+        const samples = [...sizes][0] - 1;
+        const minWest = Math.min(...files.map((file) => file.west));
+        const maxWest = Math.max(...files.map((file) => file.west));
+        const minSouth = Math.min(...files.map((file) => file.south));
+        const maxSouth = Math.max(...files.map((file) => file.south));
+        const width = (maxWest - minWest + 1) * samples + 1;
+        const height = (maxSouth - minSouth + 1) * samples + 1;
+        const grid = new HeightTile(width, height, (col, row) => {
+          if (col < 0 || row < 0 || col >= width || row >= height) {
+            return NaN;
+          }
+          const cellX = Math.min(Math.floor(col / samples), maxWest - minWest);
+          const cellY = Math.min(
+            Math.floor(row / samples),
+            maxSouth - minSouth,
+          );
+          const file = grids.get(`${minWest + cellX}/${maxSouth - cellY}`);
+          return file
+            ? hgtElevation(file, col - cellX * samples, row - cellY * samples)
+            : NaN;
+        });
+        const result = resampleToTile(
+          grid,
+          {
+            projection: "EPSG:4326",
+            originX: minWest - 0.5 / samples,
+            originY: maxSouth + 1 + 0.5 / samples,
+            resX: 1 / samples,
+            resY: 1 / samples,
+          },
+          z,
+          x,
+          y,
+          size,
+        );
+        decodeMark?.();
+        return result;
+      },
+      abortController,
+    );
+  };
+}
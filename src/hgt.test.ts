@@ -0,0 +1,284 @@
+import { hgtCellsInBounds, hgtElevation, hgtFileName, parseHgt } from "./hgt";
+import { HgtDemManager, hgtUrlResolver, isHgtUrl } from "./hgt-dem-manager";
+import type { GetTileFunction } from "./types";
+import { tileToLngLat } from "./utils";
+
+/** Elevation that bilinear interpolation reproduces exactly. */
+const elevation = (lng: number, lat: number) => lng * 100 + lat * 50;
+
+/** Writes an HGT file of big-endian samples with `size - 1` samples per degree. */
+function hgt(
+  west: number,
+  south: number,
+  size: number,
+  value: (lng: number, lat: number) => number = elevation,
+): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(size * size * 2));
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const lng = west + col / (size - 1);
+      const lat = south + 1 - row / (size - 1);
+      view.setInt16((row * size + col) * 2, Math.round(value(lng, lat)));
+    }
+  }
+  return view.buffer;
+}
+
+/** Serves files from a folder of HGT files named by their south-west corner, like a local file fetcher. */
+function folder(size: number, requested: string[] = []): GetTileFunction {
+  return async (url) => {
+    requested.push(url);
+    const [, ns, lat, ew, lng] = /([NS])(\d+)([EW])(\d+)/.exec(url) || [];
+    const south = (ns === "S" ? -1 : 1) * Number(lat);
+    const west = (ew === "W" ? -1 : 1) * Number(lng);
+    const data = hgt(west, south, size);
+    return { data: { arrayBuffer: async () => data } as Blob };
+  };
+}
+
+test("hgt file name", () => {
+  expect(hgtFileName(11, 47)).toBe("N47E011");
+  expect(hgtFileName(-122, 37)).toBe("N37W122");
+  expect(hgtFileName(-1, -1)).toBe("S01W001");
+  expect(hgtFileName(0, 0)).toBe("N00E000");
+});
+
+test("hgt cells in bounds", () => {
+  expect(hgtCellsInBounds([11.5, 46.5, 12.5, 47])).toEqual([
+    [11, 46],
+    [12, 46],
+  ]);
+  expect(hgtCellsInBounds([-0.5, -0.5, -0.25, -0.25])).toEqual([[-1, -1]]);
+});
+
+test("parse hgt", () => {
+  const grid = parseHgt(hgt(11, 47, 3, (lng) => (lng === 11.5 ? -32768 : 7)));
+  expect(grid.size).toBe(3);
+  expect(hgtElevation(grid, 0, 0)).toBe(7);
+  expect(hgtElevation(grid, 1, 0)).toBeNaN();
+  expect(() => parseHgt(new ArrayBuffer(10))).toThrow(
+    "Not an HGT file: 10 bytes",
+  );
+});
+
+test("hgt url", () => {
+  expect(isHgtUrl("hgt://https://example.com/{name}.hgt")).toBe(true);
+  expect(isHgtUrl("https://example.com/{z}/{x}/{y}.png")).toBe(false);
+  expect(
+    hgtUrlResolver("hgt://https://example.com/{name}.hgt")(
+      [11.5, 47.5, 11.6, 47.6],
+      10,
+    ),
+  ).toEqual([{ url: "https://example.com/N47E011.hgt", west: 11, south: 47 }]);
+});
+
+test("resample the files that a tile covers", async () => {
+  const requested: string[] = [];
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 16,
+    getTile: folder(101, requested),
+  });
+  // crosses 12 degrees east and 47 degrees north
+  const [z, x, y] = [8, 136, 90];
+  const tile = await manager.fetchAndParseTile(z, x, y, new AbortController());
+  expect(requested.sort()).toEqual([
+    "/data/srtm/N46E011.hgt",
+    "/data/srtm/N46E012.hgt",
+    "/data/srtm/N47E011.hgt",
+    "/data/srtm/N47E012.hgt",
+  ]);
+  expect(tile.width).toBe(16);
+  expect(tile.height).toBe(16);
+  for (let row = 0; row < 16; row++) {
+    for (let col = 0; col < 16; col++) {
+      const [lng, lat] = tileToLngLat(
+        x + (col + 0.5) / 16,
+        y + (row + 0.5) / 16,
+        z,
+      );
+      expect(
+        Math.abs(tile.data[row * 16 + col] - elevation(lng, lat)),
+      ).toBeLessThan(1);
+    }
+  }
+
+  // neighboring tiles reuse the files that were already read
+  await manager.fetchAndParseTile(z, x, y + 1, new AbortController());
+  expect(requested.filter((url) => url.includes("N46E011"))).toHaveLength(1);
+});
+
+test("custom resolver leaves out missing files", async () => {
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt://",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 16,
+    getTile: folder(11),
+    // only the cells west of 12 degrees exist
+    resolveFiles: (bounds) =>
+      hgtCellsInBounds(bounds)
+        .filter(([west]) => west < 12)
+        .map(([west, south]) => ({
+          url: `${hgtFileName(west, south)}.hgt`,
+          west,
+          south,
+        })),
+  });
+  const [z, x, y] = [8, 136, 90];
+  const { data } = await manager.fetchAndParseTile(
+    z,
+    x,
+    y,
+    new AbortController(),
+  );
+  for (let col = 0; col < 16; col++) {
+    const [lng] = tileToLngLat(x + (col + 0.5) / 16, y, z);
+    // interpolation fills in pixels within a sample of the edge, where samples are 0.1 degrees apart
+    if (lng < 12) expect(data[col]).not.toBeNaN();
+    if (lng > 12.1) expect(data[col]).toBeNaN();
+  }
+});
+
+test("missing files have no data", async () => {
+  const present = folder(11);
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 16,
+    // the files east of 12 degrees are over the ocean
+    getTile: async (url, abortController) => {
+      if (url.includes("E012")) throw new Error(`Bad response: 404 for ${url}`);
+      return present(url, abortController);
+    },
+  });
+  const [z, x, y] = [8, 136, 90];
+  const { data } = await manager.fetchAndParseTile(
+    z,
+    x,
+    y,
+    new AbortController(),
+  );
+  for (let col = 0; col < 16; col++) {
+    const [lng] = tileToLngLat(x + (col + 0.5) / 16, y, z);
+    if (lng < 12) expect(data[col]).not.toBeNaN();
+    if (lng > 12.1) expect(data[col]).toBeNaN();
+  }
+});
+
+test("files that fail to read fail the tile until they can be read", async () => {
+  const present = folder(11);
+  let failures = 1;
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 16,
+    getTile: async (url, abortController) => {
+      if (url.includes("E012") && failures-- > 0) {
+        throw new Error(`Bad response: 503 for ${url}`);
+      }
+      return present(url, abortController);
+    },
+  });
+  await expect(
+    manager.fetchAndParseTile(8, 136, 90, new AbortController()),
+  ).rejects.toThrow("Bad response: 503");
+  const { data } = await manager.fetchAndParseTile(
+    8,
+    136,
+    90,
+    new AbortController(),
+  );
+  expect(data.some((value) => isNaN(value))).toBe(false);
+});
+
+test("files missing on disk have no data", async () => {
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 4,
+    getTile: async (url) => {
+      throw Object.assign(new Error(`ENOENT: no such file, open '${url}'`), {
+        code: "ENOENT",
+      });
+    },
+  });
+  const { data } = await manager.fetchAndParseTile(
+    8,
+    136,
+    90,
+    new AbortController(),
+  );
+  expect(data).toEqual(new Float32Array(16).fill(NaN));
+});
+
+test("tiles that cover too many files have no data", async () => {
+  const requested: string[] = [];
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 4,
+    getTile: folder(11, requested),
+  });
+  expect(manager.maxFiles).toBe(9);
+  expect(manager.fileCache.maxSize).toBe(9);
+  const { data } = await manager.fetchAndParseTile(
+    5,
+    17,
+    11,
+    new AbortController(),
+  );
+  expect(data).toEqual(new Float32Array(16).fill(NaN));
+  expect(requested).toHaveLength(0);
+
+  const larger = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 4,
+    getTile: folder(11, requested),
+    maxFiles: 200,
+    fileCacheSize: 4,
+  });
+  expect(larger.fileCache.maxSize).toBe(4);
+  await larger.fetchAndParseTile(5, 17, 11, new AbortController());
+  expect(requested.length).toBeGreaterThan(9);
+});
+
+test("files that fail to parse fail the tile", async () => {
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt:///data/srtm/{name}.hgt",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 16,
+    getTile: async () => ({
+      data: { arrayBuffer: async () => new ArrayBuffer(10) } as Blob,
+    }),
+  });
+  await expect(
+    manager.fetchAndParseTile(8, 136, 90, new AbortController()),
+  ).rejects.toThrow("Not an HGT file");
+});
+
+test("tiles without files have no data", async () => {
+  const manager = new HgtDemManager({
+    demUrlPattern: "hgt://",
+    cacheSize: 10,
+    timeoutMs: 1000,
+    tileSize: 4,
+    resolveFiles: () => [],
+  });
+  const { data } = await manager.fetchAndParseTile(
+    8,
+    136,
+    90,
+    new AbortController(),
+  );
+  expect(data).toEqual(new Float32Array(16).fill(NaN));
+});
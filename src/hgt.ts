@@ -0,0 +1,66 @@
+/** Value of samples without data in SRTM files. */
+const VOID = -32768;
+
+/** A grid file that covers one degree of longitude and latitude. */
+export interface HgtFile {
+  url: string;
+  /** Longitude of the west edge, in degrees */
+  west: number;
+  /** Latitude of the south edge, in degrees */
+  south: number;
+}
+
+/** Returns the files that cover the `[west, south, east, north]` bounds of a tile, in degrees. */
+export type HgtResolver = (
+  bounds: [number, number, number, number],
+  z: number,
+) => HgtFile[] | Promise<HgtFile[]>;
+
+/**
+ * The elevation samples of a grid file, in rows from north to south. Samples lie on the edges of the cell,
+ * so the first and last row and column are the same as the ones in the neighboring files.
+ */
+export interface HgtGrid {
+  /** Number of samples across and down */
+  size: number;
+  /** Big-endian int16 samples */
+  view: DataView;
+}
+
+/** Returns the SRTM name of the file whose south-west corner is at `west, south`, like `N47E011`. */
+export function hgtFileName(west: number, south: number): string {
+  const pad = (value: number, length: number) =>
+    Math.abs(value).toString().padStart(length, "0");
+  return `${south < 0 ? "S" : "N"}${pad(south, 2)}${west < 0 ? "W" : "E"}${pad(west, 3)}`;
+}
+
+/** Returns the `[west, south]` corners of the one degree cells that overlap some bounds. */
+export function hgtCellsInBounds([west, south, east, north]: [
+  number,
+  number,
+  number,
+  number,
+]): [number, number][] {
+  const result: [number, number][] = [];
+  for (let lat = Math.floor(south); lat < north; lat++) {
+    for (let lng = Math.floor(west); lng < east; lng++) {
+      result.push([lng, lat]);
+    }
+  }
+  return result;
+}
+
+/** Checks the size of an HGT file, which holds a square grid of 16 bit samples. */
+export function parseHgt(data: ArrayBuffer): HgtGrid {
+  const size = Math.round(Math.sqrt(data.byteLength / 2));
+  if (size < 2 || size * size * 2 !== data.byteLength) {
+    throw new Error(`Not an HGT file: ${data.byteLength} bytes`);
+  }
+  return { size, view: new DataView(data) };
+}
+
+/** Returns the elevation of a sample in a grid, or `NaN` for voids. */
+export function hgtElevation(grid: HgtGrid, col: number, row: number): number {
+  const value = grid.view.getInt16((row * grid.size + col) * 2);
+  return value === VOID ? NaN : value;
+}
@@ -0,0 +1,43 @@
+import { HeightTile } from "./height-tile";
+import hillshade from "./hillshade";
+
+// at z12 near the equator each pixel of a 4x4 tile is about 2.4km
+const flat = new HeightTile(4, 4, () => 100);
+const slope = (dx: number, dy: number) =>
+  new HeightTile(4, 4, (x, y) => 1000 * (x * dx + y * dy));
+const shadeAt = (tile: HeightTile, options = {}) =>
+  hillshade(tile, 12, 2048, options)[(1 * 4 + 1) * 2];
+
+test("flat ground is lit by the altitude of the sun", () => {
+  expect(shadeAt(flat)).toBe(Math.round(255 * Math.sin(Math.PI / 4)));
+  expect(shadeAt(flat, { altitude: 90 })).toBe(255);
+  expect(shadeAt(flat, { multidirectional: true })).toBe(180);
+});
+
+test("slopes facing the sun are brighter", () => {
+  const flatShade = shadeAt(flat);
+  // rising to the south-east faces north-west, towards the default sun
+  expect(shadeAt(slope(1, 1))).toBeGreaterThan(flatShade);
+  expect(shadeAt(slope(-1, -1))).toBeLessThan(flatShade);
+  expect(shadeAt(slope(-1, -1), { azimuth: 135 })).toBeGreaterThan(flatShade);
+});
+
+test("z factor exaggerates slopes", () => {
+  expect(shadeAt(slope(-1, -1), { zFactor: 2 })).toBeLessThan(
+    shadeAt(slope(-1, -1)),
+  );
+});
+
+test("multidirectional lighting shows slopes facing away from the sun", () => {
+  const southEast = slope(-1, -1);
+  expect(shadeAt(southEast, { multidirectional: true })).toBeGreaterThan(
+    shadeAt(southEast),
+  );
+});
+
+test("missing data is transparent", () => {
+  const tile = new HeightTile(2, 2, (x, y) => (x === 0 && y === 0 ? NaN : 5));
+  expect([...hillshade(tile, 12, 2048)]).toEqual([
+    0, 0, 180, 255, 180, 255, 180, 255,
+  ]);
+});
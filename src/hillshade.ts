@@ -0,0 +1,75 @@
+import type { HeightTile } from "./height-tile";
+import { gradient, pixelSizeMeters } from "./slope";
+import type { HillshadeOptions } from "./types";
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Computes the brightness of each pixel in a tile lit by the sun, using Horn's method to estimate the
+ * slope from the 3x3 pixels around it.
+ *
+ * @param tile The input height tile in meters, with neighboring tiles available outside of its bounds
+ * @param z Zoom level of the tile
+ * @param y Y coordinate of the tile, used to get the size of each pixel in meters
+ * @param options Sun position and vertical exaggeration
+ * @returns gray and alpha values for each pixel in row-major order, where pixels without data are transparent
+ */
+export default function hillshade(
+  tile: HeightTile,
+  z: number,
+  y: number,
+  {
+    azimuth = 315,
+    altitude = 45,
+    zFactor = 1,
+    multidirectional = false,
+  }: HillshadeOptions = {},
+): Uint8Array {
+  const { width, height } = tile;
+  const result = new Uint8Array(width * height * 2);
+  const sinAltitude = Math.sin(altitude * DEG_TO_RAD);
+  const cosAltitude = Math.cos(altitude * DEG_TO_RAD);
+  // like gdaldem -multidirectional, blend 4 lights 45 degrees apart ending at the azimuth
+  const azimuths = (
+    multidirectional
+      ? [azimuth - 90, azimuth - 45, azimuth, azimuth + 45]
+      : [azimuth]
+  ).map((a) => a * DEG_TO_RAD);
+
+  for (let row = 0; row < height; row++) {
+    const pixelSize = pixelSizeMeters(z, y + (row + 0.5) / height, width);
+    for (let col = 0; col < width; col++) {
+      const grad = gradient(tile, col, row);
+      if (!grad) {
+        continue;
+      }
+      const idx = (row * width + col) * 2;
+      // x increases to the east and y increases to the south
+      const dzdx = (zFactor * grad[0]) / pixelSize;
+      const dzdy = (zFactor * grad[1]) / pixelSize;
+      const norm = Math.sqrt(1 + dzdx * dzdx + dzdy * dzdy);
+      // direction that the slope faces, clockwise from north
+      const aspect = Math.atan2(-dzdx, dzdy);
+
+      let shade = 0;
+      for (const az of azimuths) {
+        // dot product of the surface normal with the direction to the sun
+        const lit = Math.max(
+          0,
+          (sinAltitude +
+            cosAltitude * (dzdy * Math.cos(az) - dzdx * Math.sin(az))) /
+            norm,
+        );
+        if (azimuths.length === 1) {
+          shade = lit;
+        } else {
+          // weights add up to 2 for lights 45 degrees apart
+          shade += (Math.sin(aspect - az) ** 2 * lit) / 2;
+        }
+      }
+      result[idx] = Math.round(shade * 255);
+      result[idx + 1] = 255;
+    }
+  }
+  return result;
+}
@@ -1,15 +1,20 @@
-import generateIsolines from "./isolines";
+import generateIsolines, { generateIsobands } from "./isolines";
 import { DemSource } from "./dem-source";
 import { decodeParsedImage } from "./decode-image";
 import { LocalDemManager } from "./local-dem-manager";
+import { CogDemManager } from "./cog-dem-manager";
+import { HgtDemManager } from "./hgt-dem-manager";
 import CONFIG from "./config";
 import { HeightTile } from "./height-tile";
 
 const exported = {
   generateIsolines,
+  generateIsobands,
   DemSource,
   HeightTile,
   LocalDemManager,
+  CogDemManager,
+  HgtDemManager,
   decodeParsedImage,
   set workerUrl(url: string) {
     CONFIG.workerUrl = url;
@@ -1,6 +1,6 @@
 import { flattenDeep } from "lodash";
 import { HeightTile } from "./height-tile";
-import generateIsolines from "./isolines";
+import generateIsolines, { generateIsobands, ringArea } from "./isolines";
 
 runTestWithRotations("corner halfway", 2, heightTile(1, 1, 1, 3), {
   2: [[1, 0.5, 0.5, 1]],
@@ -20,6 +20,22 @@ runTestWithRotations("two contours", 2, heightTile(1, 1, 1, 5), {
   4: [[1, 0.75, 0.75, 1]],
 });
 
+runTestWithRotations("explicit elevations", [4, 2], heightTile(1, 1, 1, 5), {
+  2: [[1, 0.25, 0.25, 1]],
+  4: [[1, 0.75, 0.75, 1]],
+});
+
+runTestWithRotations(
+  "explicit elevation between intervals",
+  [3],
+  heightTile(1, 1, 1, 5),
+  {
+    3: [[1, 0.5, 0.5, 1]],
+  },
+);
+
+runTestWithRotations("no elevations", [], heightTile(1, 1, 1, 5), {});
+
 runTestWithRotations(
   "edge above threshold",
   2,
@@ -38,6 +54,33 @@ runTestWithRotations(
   },
 );
 
+test("fractional intervals", () => {
+  const tile = heightTile(0.05, 0.35, 0.35, 0.05);
+  expect(Object.keys(generateIsolines(0.1, tile, 4096, 0))).toEqual([
+    "0.1",
+    "0.2",
+    "0.3",
+  ]);
+  expect(Object.keys(generateIsobands(0.1, tile, 4096, 0))).toEqual([
+    "0",
+    "0.1",
+    "0.2",
+    "0.3",
+  ]);
+});
+
+test("lines in the buffer on both sides of the tile", () => {
+  // traced from the left edge of the buffer, not the left edge of the tile
+  const left = new HeightTile(2, 2, (x) => (x < 0 ? 10 : 0));
+  expect(generateIsolines([5], left, 4096, 1)).toEqual({
+    5: [[-2048, 8192, -2048, 4096, -2048, 0, -2048, -4096]],
+  });
+  const right = new HeightTile(2, 2, (x) => (x > 1 ? 10 : 0));
+  expect(generateIsolines([5], right, 4096, 1)).toEqual({
+    5: [[6144, -4096, 6144, 0, 6144, 4096, 6144, 8192]],
+  });
+});
+
 runTestWithRotations("corner up to threshold", 2, heightTile(1, 1, 1, 2), {});
 runTestWithRotations("omit empty point??", 2, heightTile(2, 3, 3, 3), {
   2: [[0, 0, 0, 0]],
@@ -135,7 +178,7 @@ function heightTile(...values: number[] | number[][][]): HeightTile {
 
 function runTestWithRotations(
   name: string,
-  interval: number,
+  interval: number | number[],
   heightTile: HeightTile,
   expected: { [ele: number]: number[][] },
 ) {
@@ -172,7 +215,7 @@ function round(n: number): number {
 function runTest(
   name: string,
   rotation: number,
-  interval: number,
+  interval: number | number[],
   heightTile: HeightTile,
   expected: { [ele: number]: number[][] },
 ) {
@@ -217,3 +260,286 @@ function runTest(
     expect(rotatedResult).toEqual(expected);
   });
 }
+
+describe("isobands", () => {
+  const hill = heightTile([
+    [1, 1, 1, 1, 1],
+    [1, 3, 3, 3, 1],
+    [1, 3, 5, 3, 1],
+    [1, 3, 3, 3, 1],
+    [1, 1, 1, 1, 1],
+  ]);
+
+  test("band polygons are closed and follow vector tile winding", () => {
+    const bands = generateIsobands(2, hill, 4, 0);
+    expect(Object.keys(bands).map(Number).sort()).toEqual([0, 2, 4]);
+    for (const rings of Object.values(bands)) {
+      expect(ringArea(rings[0])).toBeGreaterThan(0);
+      for (const ring of rings) {
+        expect(ring.slice(0, 2)).toEqual(ring.slice(-2));
+      }
+    }
+  });
+
+  test("lowest band is closed along the tile edge with a hole for higher ground", () => {
+    const bands = generateIsobands(2, hill, 4, 0);
+    const [exterior, ...holes] = bands[0];
+    expect(ringArea(exterior)).toBe(16);
+    expect(holes).toHaveLength(1);
+    expect(ringArea(holes[0])).toBeLessThan(0);
+  });
+
+  test("band areas add up to the tile area", () => {
+    const bands = generateIsobands(2, hill, 4, 0);
+    let total = 0;
+    for (const rings of Object.values(bands)) {
+      for (const ring of rings) {
+        total += ringArea(ring);
+      }
+    }
+    expect(total).toBe(16);
+  });
+
+  test("pit becomes a hole in the surrounding band", () => {
+    const pit = heightTile([
+      [5, 5, 5],
+      [5, 1, 5],
+      [5, 5, 5],
+    ]);
+    const bands = generateIsobands(2, pit, 2048, 0);
+    expect(Object.keys(bands).map(Number).sort()).toEqual([0, 2, 4]);
+    expect(bands[4]).toHaveLength(2);
+    expect(ringArea(bands[4][0])).toBe(2048 * 2048);
+    expect(ringArea(bands[4][1])).toBeLessThan(0);
+    expect(bands[0]).toHaveLength(1);
+    expect(ringArea(bands[0][0])).toBeGreaterThan(0);
+  });
+
+  test("flat tile is a single band", () => {
+    expect(generateIsobands(2, heightTile(3, 3, 3, 3), 4096, 0)).toEqual({
+      2: [[4096, 4096, 0, 4096, 0, 0, 4096, 0, 4096, 4096]],
+    });
+  });
+
+  test("explicit elevations", () => {
+    const bands = generateIsobands([2.5, 4], hill, 4, 0);
+    expect(Object.keys(bands).map(Number).sort()).toEqual([2.5, 4]);
+    // values below the lowest elevation are not part of any band
+    expect(bands[2.5]).toHaveLength(2);
+    expect(ringArea(bands[2.5][0])).toBeLessThan(16);
+    expect(generateIsobands([], hill, 4, 0)).toEqual({});
+  });
+
+  test("missing data is excluded", () => {
+    const bands = generateIsobands(
+      2,
+      heightTile([
+        [NaN, NaN, 3],
+        [NaN, 3, 3],
+        [3, 3, 3],
+      ]),
+      2,
+      0,
+    );
+    expect(Object.keys(bands)).toEqual(["2"]);
+    expect(bands[2]).toHaveLength(1);
+    expect(ringArea(bands[2][0])).toBe(2);
+  });
+});
+
+describe("orientation", () => {
+  /** Bilinear interpolation of the elevation at fractional pixel coordinates */
+  function elevationAt(tile: HeightTile, x: number, y: number): number {
+    // stay inside the tile for segments along its edge
+    x = Math.max(0, Math.min(tile.width - 1, x));
+    y = Math.max(0, Math.min(tile.height - 1, y));
+    const x0 = Math.min(Math.floor(x), tile.width - 2);
+    const y0 = Math.min(Math.floor(y), tile.height - 2);
+    const fx = x - x0;
+    const fy = y - y0;
+    return (
+      tile.get(x0, y0) * (1 - fx) * (1 - fy) +
+      tile.get(x0 + 1, y0) * fx * (1 - fy) +
+      tile.get(x0, y0 + 1) * (1 - fx) * fy +
+      tile.get(x0 + 1, y0 + 1) * fx * fy
+    );
+  }
+
+  /** Checks that terrain just left of the middle of every segment is higher than terrain just right of it */
+  function expectHigherOnLeft(
+    tile: HeightTile,
+    isolines: { [ele: number]: number[][] },
+  ) {
+    const scale = (tile.width - 1) / 4096;
+    let segments = 0;
+    for (const ele in isolines) {
+      for (const line of isolines[ele]) {
+        for (let i = 0; i < line.length - 2; i += 2) {
+          const dx = line[i + 2] - line[i];
+          const dy = line[i + 3] - line[i + 1];
+          const length = Math.hypot(dx, dy);
+          if (length === 0) continue;
+          const mx = ((line[i] + line[i + 2]) / 2) * scale;
+          const my = ((line[i + 1] + line[i + 3]) / 2) * scale;
+          // with y pointing down, (dy, -dx) points to the left of the direction of travel
+          const ox = (dy / length) * 0.01;
+          const oy = (-dx / length) * 0.01;
+          expect(elevationAt(tile, mx + ox, my + oy)).toBeGreaterThan(
+            elevationAt(tile, mx - ox, my - oy),
+          );
+          segments++;
+        }
+      }
+    }
+    expect(segments).toBeGreaterThan(0);
+  }
+
+  for (let i = 1; i < 15; i++) {
+    test(`marching squares case ${i}`, () => {
+      // corners are bits of the case index: top-left=8, top-right=4, bottom-right=2, bottom-left=1
+      const tile = heightTile(
+        i & 8 ? 2 : 0,
+        i & 4 ? 2 : 0,
+        i & 1 ? 2 : 0,
+        i & 2 ? 2 : 0,
+      );
+      expectHigherOnLeft(tile, generateIsolines([1], tile, 4096, 0));
+      // the center of saddle cells averages to 1, so this connects the higher corners instead
+      expectHigherOnLeft(
+        tile,
+        generateIsolines([0.9], tile, 4096, 0, "average"),
+      );
+    });
+  }
+
+  function cone(size: number, cx: number, cy: number, sign: number) {
+    return new HeightTile(size, size, (x, y) => {
+      return sign * (100 - 10 * Math.hypot(x - cx, y - cy));
+    }).materialize(0);
+  }
+
+  for (const [name, sign] of [
+    ["cone", 1],
+    ["pit", -1],
+  ] as const) {
+    for (const [cx, cy] of [
+      [4.3, 4.6],
+      [1.2, 6.7],
+      [-2.5, 3.1],
+      [8.4, -1.3],
+    ]) {
+      test(`${name} centered at ${cx},${cy}`, () => {
+        const tile = cone(9, cx, cy, sign);
+        const isolines = generateIsolines(7, tile, 4096, 0);
+        expectHigherOnLeft(tile, isolines);
+        for (const ele in isolines) {
+          for (const line of isolines[ele]) {
+            const closed =
+              line[0] === line[line.length - 2] &&
+              line[1] === line[line.length - 1];
+            if (closed) {
+              // counter-clockwise around peaks and clockwise around pits when y points down
+              expect(Math.sign(ringArea(line))).toBe(-sign);
+            }
+          }
+        }
+      });
+    }
+  }
+});
+
+describe("saddles", () => {
+  function saddleLines(
+    tile: HeightTile,
+    threshold: number,
+    saddleMethod: "fixed" | "average" | "asymptotic",
+  ): number[][] {
+    const scale = (tile.width - 1) / 4096;
+    const lines = generateIsolines([threshold], tile, 4096, 0, saddleMethod)[
+      threshold
+    ];
+    return lines
+      .map((line) => line.map((n) => round(n * scale)))
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  }
+
+  // top-right and bottom-left corners are above 3.5, average of the corners is 4 but the
+  // saddle point of the bilinear surface through them is 3
+  const case5 = heightTile(0, 12, 4, 0);
+  const separated5 = [
+    [0.125, 1, 0, 0.875],
+    [0.292, 0, 1, 0.708],
+  ];
+  const connected5 = [
+    [0.125, 1, 1, 0.708],
+    [0.292, 0, 0, 0.875],
+  ];
+  // same cell mirrored horizontally
+  const case10 = heightTile(12, 0, 0, 4);
+  const separated10 = [
+    [0, 0.708, 0.708, 0],
+    [1, 0.875, 0.875, 1],
+  ];
+  const connected10 = [
+    [0, 0.708, 0.875, 1],
+    [1, 0.875, 0.708, 0],
+  ];
+
+  test("fixed separates the higher corners", () => {
+    expect(saddleLines(case5, 3.5, "fixed")).toEqual(separated5);
+    expect(saddleLines(case10, 3.5, "fixed")).toEqual(separated10);
+    expect(saddleLines(case5, 2, "fixed")).toEqual([
+      [0.167, 0, 1, 0.833],
+      [0.5, 1, 0, 0.5],
+    ]);
+  });
+
+  test("average connects higher corners when the average is above the threshold", () => {
+    expect(saddleLines(case5, 3.5, "average")).toEqual(connected5);
+    expect(saddleLines(case10, 3.5, "average")).toEqual(connected10);
+    expect(saddleLines(case5, 3.9, "average")).toEqual([
+      [0.025, 1, 1, 0.675],
+      [0.325, 0, 0, 0.975],
+    ]);
+  });
+
+  test("asymptotic connects higher corners when the saddle point is above the threshold", () => {
+    expect(saddleLines(case5, 3.5, "asymptotic")).toEqual(separated5);
+    expect(saddleLines(case10, 3.5, "asymptotic")).toEqual(separated10);
+    expect(saddleLines(case5, 2.5, "asymptotic")).toEqual([
+      [0.208, 0, 0, 0.625],
+      [0.375, 1, 1, 0.792],
+    ]);
+  });
+
+  test("asymptotic follows a bilinear saddle surface", () => {
+    // z = (x - 1.4)(y - 1.7) has its saddle point at 0, where the 2 branches of each contour
+    // line stay on opposite sides of x = 1.4
+    const tile = new HeightTile(4, 4, (x, y) => (x - 1.4) * (y - 1.7));
+    const crossesAsymptote = (lines: number[][]) =>
+      lines.some((line) => {
+        const sides = new Set<boolean>();
+        for (let i = 0; i < line.length; i += 2) {
+          if (line[i] !== 1.4) sides.add(line[i] > 1.4);
+        }
+        return sides.size > 1;
+      });
+    for (const threshold of [-0.01, 0.01, -0.3, 0.3]) {
+      expect(crossesAsymptote(saddleLines(tile, threshold, "asymptotic"))).toBe(
+        false,
+      );
+    }
+    // the corners of the saddle cell average to -0.02, so the other methods get this wrong
+    expect(crossesAsymptote(saddleLines(tile, -0.01, "average"))).toBe(true);
+    expect(crossesAsymptote(saddleLines(tile, -0.01, "fixed"))).toBe(true);
+  });
+
+  test("isobands use the same saddle resolution", () => {
+    const isobands = generateIsobands([0, 3.5], case5, 4096, 0, "average");
+    // the band above 3.5 is a single polygon connecting the higher corners
+    expect(isobands[3.5].length).toBe(1);
+    expect(
+      generateIsobands([0, 3.5], case5, 4096, 0, "fixed")[3.5].length,
+    ).toBe(2);
+  });
+});
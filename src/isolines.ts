@@ -16,7 +16,8 @@ TORTIOUS ACTION, ARISING OUT OF OR IN CONNECTION WITH THE USE OR PERFORMANCE OF
 THIS SOFTWARE.
 */
 
-import type { HeightTile } from "./height-tile";
+import { HeightTile } from "./height-tile";
+import type { SaddleMethod } from "./types";
 
 class Fragment {
   start: number;
@@ -154,6 +155,33 @@ const CASES: [number, number][][][] = [
   [],
 ];
 
+/**
+ * Alternative segments for the ambiguous saddle cases when the center of the cell is above the threshold,
+ * which connect the two higher corners instead of separating them.
+ */
+const CENTER_HIGH_CASES: { [index: number]: [number, number][][] } = {
+  5: [
+    [
+      [1, 0],
+      [0, 1],
+    ],
+    [
+      [1, 2],
+      [2, 1],
+    ],
+  ],
+  10: [
+    [
+      [2, 1],
+      [1, 0],
+    ],
+    [
+      [0, 1],
+      [1, 2],
+    ],
+  ],
+};
+
 function index(width: number, x: number, y: number, point: [number, number]) {
   x = x * 2 + point[0];
   y = y * 2 + point[1];
@@ -161,34 +189,289 @@ function index(width: number, x: number, y: number, point: [number, number]) {
 }
 
 function ratio(a: number, b: number, c: number) {
-  return (b - a) / (c - a);
+  // isobands treat values outside the window as -Infinity so rings follow the window edge
+  return a === -Infinity ? 1 : c === -Infinity ? 0 : (b - a) / (c - a);
+}
+
+function isEmpty(interval: number | number[]): boolean {
+  return Array.isArray(interval) ? interval.length === 0 : !interval;
+}
+
+function sorted(interval: number | number[]): number | number[] {
+  return Array.isArray(interval)
+    ? [...new Set(interval)].sort((a, b) => a - b)
+    : interval;
 }
 
 /**
  * Generates contour lines from a HeightTile
  *
- * @param interval Vertical distance between contours
+ * @param interval Vertical distance between contours, or a list of elevations to generate contours at
  * @param tile The input height tile, where values represent the height at the top-left of each pixel
  * @param extent Vector tile extent (default 4096)
  * @param buffer How many pixels into each neighboring tile to include in a tile
+ * @param saddleMethod How to decide whether the higher corners of saddle cells are connected (default "fixed")
  * @returns an object where keys are the elevation, and values are a list of `[x1, y1, x2, y2, ...]`
- * contour lines in tile coordinates
+ * contour lines in tile coordinates, oriented so that higher ground is always on the left
  */
 export default function generateIsolines(
-  interval: number,
+  interval: number | number[],
+  tile: HeightTile,
+  extent: number = 4096,
+  buffer: number = 1,
+  saddleMethod: SaddleMethod = "fixed",
+): { [ele: number]: number[][] } {
+  if (isEmpty(interval)) {
+    return {};
+  }
+  return traceContours(sorted(interval), tile, extent, buffer, saddleMethod);
+}
+
+/**
+ * Generates filled polygons for each elevation band between contour lines from a HeightTile.
+ *
+ * Polygons are closed along the edge of the buffered tile and around missing data, rings
+ * follow the vector tile spec winding order (exterior rings clockwise, holes counter-clockwise)
+ * and each exterior ring is immediately followed by its holes.
+ *
+ * @param interval Vertical distance between contours, or a list of elevations to use as band boundaries
+ * where values below the lowest elevation are not included in any band
+ * @param tile The input height tile, where values represent the height at the top-left of each pixel
+ * @param extent Vector tile extent (default 4096)
+ * @param buffer How many pixels into each neighboring tile to include in a tile
+ * @param saddleMethod How to decide whether the higher corners of saddle cells are connected (default "fixed")
+ * @param processRings Transforms the closed contour rings keyed by elevation before they are assembled into
+ * bands, where each ring is the upper edge of one band and the lower edge of the next
+ * @returns an object where keys are the lower elevation of each band, and values are the list
+ * of `[x1, y1, x2, y2, ...]` rings that make up the polygon for that band in tile coordinates
+ */
+export function generateIsobands(
+  interval: number | number[],
   tile: HeightTile,
   extent: number = 4096,
   buffer: number = 1,
+  saddleMethod: SaddleMethod = "fixed",
+  processRings?: (rings: { [ele: number]: number[][] }) => {
+    [ele: number]: number[][];
+  },
 ): { [ele: number]: number[][] } {
-  if (!interval) {
+  if (isEmpty(interval)) {
     return {};
   }
+  let min = Infinity;
+  let max = -Infinity;
+  const bounded = new HeightTile(tile.width, tile.height, (x, y) => {
+    if (x < -buffer || y < -buffer) return -Infinity;
+    if (x >= tile.width + buffer || y >= tile.height + buffer) return -Infinity;
+    const value = tile.get(x, y);
+    return isNaN(value) ? -Infinity : value;
+  }).materialize(buffer + 1);
+  for (let y = -buffer; y < tile.height + buffer; y++) {
+    for (let x = -buffer; x < tile.width + buffer; x++) {
+      const value = bounded.get(x, y);
+      if (value !== -Infinity) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+  }
+  if (min > max) {
+    return {};
+  }
+
+  let thresholds: number[] = [];
+  if (typeof interval === "number") {
+    // the lowest threshold is below every value so its rings outline all valid data
+    const first = Math.floor(min / interval) - 1;
+    const last = Math.floor(max / interval);
+    for (let i = first; i <= last; i++) {
+      thresholds.push(multipleOf(i, interval));
+    }
+  } else {
+    thresholds = sorted(interval) as number[];
+  }
+  let rings = traceContours(
+    thresholds,
+    bounded,
+    extent,
+    buffer + 1,
+    saddleMethod,
+  );
+  if (processRings) {
+    rings = processRings(rings);
+  }
+
+  const result: { [ele: number]: number[][] } = {};
+  for (let i = 0; i < thresholds.length; i++) {
+    // rings have higher ground on the left, so reversing the rings above the lower
+    // threshold gives clockwise exteriors, and rings above the upper threshold are already
+    // counter-clockwise holes
+    const lower = (rings[thresholds[i]] || []).map(reverseLine);
+    const upper = rings[thresholds[i + 1]] || [];
+    const polygon = assemblePolygon(
+      [...lower, ...upper].map(removeRepeatedPoints),
+    );
+    if (polygon.length > 0) {
+      result[thresholds[i]] = polygon;
+    }
+  }
+  return result;
+}
+
+/**
+ * Drops points that repeat the one before them, which happens where rings follow the edge of the
+ * window and every crossing lands on a corner.
+ */
+function removeRepeatedPoints(ring: number[]): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < ring.length; i += 2) {
+    const x = ring[i];
+    const y = ring[i + 1];
+    if (
+      result.length === 0 ||
+      x !== result[result.length - 2] ||
+      y !== result[result.length - 1]
+    ) {
+      result.push(x, y);
+    }
+  }
+  return result;
+}
+
+/** Reverses the order of points in a `[x1, y1, x2, y2, ...]` line or ring. */
+export function reverseLine(line: number[]): number[] {
+  const result: number[] = [];
+  for (let i = line.length - 2; i >= 0; i -= 2) {
+    result.push(line[i], line[i + 1]);
+  }
+  return result;
+}
+
+/** Signed area of a ring using the surveyor's formula, positive for clockwise rings in tile coordinates */
+export function ringArea(ring: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 2; i += 2) {
+    sum += ring[i] * ring[i + 3] - ring[i + 2] * ring[i + 1];
+  }
+  return sum / 2;
+}
+
+/** Returns true if a point is inside a `[x1, y1, x2, y2, ...]` ring, using the even-odd rule. */
+export function pointInRing(x: number, y: number, ring: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length; j = i, i += 2) {
+    const xi = ring[i];
+    const yi = ring[i + 1];
+    const xj = ring[j];
+    const yj = ring[j + 1];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function ringContains(outer: number[], inner: number[]): boolean {
+  // contours can touch, so look for a vertex that is not on the outer ring
+  for (let i = 0; i < inner.length; i += 2) {
+    let onOuter = false;
+    for (let j = 0; j < outer.length && !onOuter; j += 2) {
+      onOuter = outer[j] === inner[i] && outer[j + 1] === inner[i + 1];
+    }
+    if (!onOuter) {
+      return pointInRing(inner[i], inner[i + 1], outer);
+    }
+  }
+  // every vertex is shared, so the rings are identical
+  return true;
+}
+
+/**
+ * Orders a set of rings so that each exterior ring is followed by the holes it contains, and drops
+ * empty rings or polygons that cancel out completely.
+ */
+function assemblePolygon(rings: number[][]): number[][] {
+  const exteriors: {
+    ring: number[];
+    area: number;
+    holes: number[][];
+    empty?: boolean;
+  }[] = [];
+  const holes: { ring: number[]; area: number }[] = [];
+  let total = 0;
+  for (const ring of rings) {
+    const area = ringArea(ring);
+    total += area;
+    if (area > 0) {
+      exteriors.push({ ring, area, holes: [] });
+    } else if (area < 0) {
+      holes.push({ ring, area });
+    }
+  }
+  if (total <= 0 || exteriors.length === 0) {
+    return [];
+  }
+  exteriors.sort((a, b) => a.area - b.area);
+  for (const hole of holes) {
+    const container = exteriors.find(
+      (exterior) =>
+        exterior.area >= -hole.area && ringContains(exterior.ring, hole.ring),
+    );
+    if (container && container.area === -hole.area) {
+      // the band is empty where the same ring bounds both thresholds
+      container.empty = true;
+    } else {
+      container?.holes.push(hole.ring);
+    }
+  }
+  const result: number[][] = [];
+  for (const exterior of exteriors) {
+    if (!exterior.empty) {
+      result.push(exterior.ring, ...exterior.holes);
+    }
+  }
+  return result;
+}
+
+/** Index of the first item in a sorted list that is greater than or equal to `value`. */
+function lowerBound(list: number[], value: number): number {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid] < value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/** Returns `i * interval` without floating-point noise like 0.30000000000000004, the same as `multiplesBetween`. */
+function multipleOf(i: number, interval: number): number {
+  return Number((i * interval).toPrecision(12));
+}
+
+/**
+ * Marching squares implementation shared by isolines and isobands.
+ *
+ * @param thresholds Either the vertical distance between contours, or a sorted list of elevations
+ */
+function traceContours(
+  thresholds: number | number[],
+  tile: HeightTile,
+  extent: number,
+  buffer: number,
+  saddleMethod: SaddleMethod,
+): { [ele: number]: number[][] } {
   const multiplier = extent / (tile.width - 1);
   let tld: number, trd: number, bld: number, brd: number;
   let r: number, c: number;
   const segments: { [ele: string]: number[][] } = {};
   const fragmentByStartByLevel: Map<number, Map<number, Fragment>> = new Map();
   const fragmentByEndByLevel: Map<number, Map<number, Fragment>> = new Map();
+  const multiples: Map<number, number> = new Map();
 
   function interpolate(
     point: [number, number],
@@ -216,12 +499,89 @@ export default function generateIsolines(
     }
   }
 
+  // estimated value at the center of a saddle cell, which is the same for every threshold so
+  // contours at different thresholds never cross
+  function saddleCenter(): number {
+    switch (saddleMethod) {
+      case "average":
+        return (tld + trd + bld + brd) / 4;
+      case "asymptotic":
+        // value where the asymptotes of the bilinear interpolation of the cell cross
+        return (tld * brd - trd * bld) / (tld + brd - trd - bld);
+      default:
+        return -Infinity;
+    }
+  }
+
+  function addSegments(threshold: number) {
+    const tl = tld > threshold;
+    const tr = trd > threshold;
+    const bl = bld > threshold;
+    const br = brd > threshold;
+    const caseIndex = (tl ? 8 : 0) | (tr ? 4 : 0) | (br ? 2 : 0) | (bl ? 1 : 0);
+    const cases =
+      (caseIndex === 5 || caseIndex === 10) && saddleCenter() > threshold
+        ? CENTER_HIGH_CASES[caseIndex]
+        : CASES[caseIndex];
+    for (const segment of cases) {
+      let fragmentByStart = fragmentByStartByLevel.get(threshold);
+      if (!fragmentByStart)
+        fragmentByStartByLevel.set(threshold, (fragmentByStart = new Map()));
+      let fragmentByEnd = fragmentByEndByLevel.get(threshold);
+      if (!fragmentByEnd)
+        fragmentByEndByLevel.set(threshold, (fragmentByEnd = new Map()));
+      const start = segment[0];
+      const end = segment[1];
+      const startIndex = index(tile.width, c, r, start);
+      const endIndex = index(tile.width, c, r, end);
+      let f, g;
+
+      if ((f = fragmentByEnd.get(startIndex))) {
+        fragmentByEnd.delete(startIndex);
+        if ((g = fragmentByStart.get(endIndex))) {
+          fragmentByStart.delete(endIndex);
+          if (f === g) {
+            // closing a ring
+            interpolate(end, threshold, f.append);
+            if (!f.isEmpty()) {
+              let list = segments[threshold];
+              if (!list) {
+                segments[threshold] = list = [];
+              }
+              list.push(f.lineString());
+            }
+          } else {
+            // connecting 2 segments
+            f.appendFragment(g);
+            fragmentByEnd.set((f.end = g.end), f);
+          }
+        } else {
+          // adding to the end of f
+          interpolate(end, threshold, f.append);
+          fragmentByEnd.set((f.end = endIndex), f);
+        }
+      } else if ((f = fragmentByStart.get(endIndex))) {
+        fragmentByStart.delete(endIndex);
+        // extending the start of f
+        interpolate(start, threshold, f.prepend);
+        fragmentByStart.set((f.start = startIndex), f);
+      } else {
+        // starting a new fragment
+        const newFrag = new Fragment(startIndex, endIndex);
+        interpolate(start, threshold, newFrag.append);
+        interpolate(end, threshold, newFrag.append);
+        fragmentByStart.set(startIndex, newFrag);
+        fragmentByEnd.set(endIndex, newFrag);
+      }
+    }
+  }
+
   // Most marching-squares implementations (d3-contour, gdal-contour) make one pass through the matrix per threshold.
   // This implementation makes a single pass through the matrix, building up all of the contour lines at the
   // same time to improve performance.
   for (r = 1 - buffer; r < tile.height + buffer; r++) {
-    trd = tile.get(0, r - 1);
-    brd = tile.get(0, r);
+    trd = tile.get(-buffer, r - 1);
+    brd = tile.get(-buffer, r);
     let minR = Math.min(trd, brd);
     let maxR = Math.max(trd, brd);
     for (c = 1 - buffer; c < tile.width + buffer; c++) {
@@ -238,68 +598,23 @@ export default function generateIsolines(
       }
       const min = Math.min(minL, minR);
       const max = Math.max(maxL, maxR);
-      const start = Math.ceil(min / interval) * interval;
-      const end = Math.floor(max / interval) * interval;
-      for (let threshold = start; threshold <= end; threshold += interval) {
-        const tl = tld > threshold;
-        const tr = trd > threshold;
-        const bl = bld > threshold;
-        const br = brd > threshold;
-        for (const segment of CASES[
-          (tl ? 8 : 0) | (tr ? 4 : 0) | (br ? 2 : 0) | (bl ? 1 : 0)
-        ]) {
-          let fragmentByStart = fragmentByStartByLevel.get(threshold);
-          if (!fragmentByStart)
-            fragmentByStartByLevel.set(
-              threshold,
-              (fragmentByStart = new Map()),
-            );
-          let fragmentByEnd = fragmentByEndByLevel.get(threshold);
-          if (!fragmentByEnd)
-            fragmentByEndByLevel.set(threshold, (fragmentByEnd = new Map()));
-          const start = segment[0];
-          const end = segment[1];
-          const startIndex = index(tile.width, c, r, start);
-          const endIndex = index(tile.width, c, r, end);
-          let f, g;
-
-          if ((f = fragmentByEnd.get(startIndex))) {
-            fragmentByEnd.delete(startIndex);
-            if ((g = fragmentByStart.get(endIndex))) {
-              fragmentByStart.delete(endIndex);
-              if (f === g) {
-                // closing a ring
-                interpolate(end, threshold, f.append);
-                if (!f.isEmpty()) {
-                  let list = segments[threshold];
-                  if (!list) {
-                    segments[threshold] = list = [];
-                  }
-                  list.push(f.lineString());
-                }
-              } else {
-                // connecting 2 segments
-                f.appendFragment(g);
-                fragmentByEnd.set((f.end = g.end), f);
-              }
-            } else {
-              // adding to the end of f
-              interpolate(end, threshold, f.append);
-              fragmentByEnd.set((f.end = endIndex), f);
-            }
-          } else if ((f = fragmentByStart.get(endIndex))) {
-            fragmentByStart.delete(endIndex);
-            // extending the start of f
-            interpolate(start, threshold, f.prepend);
-            fragmentByStart.set((f.start = startIndex), f);
-          } else {
-            // starting a new fragment
-            const newFrag = new Fragment(startIndex, endIndex);
-            interpolate(start, threshold, newFrag.append);
-            interpolate(end, threshold, newFrag.append);
-            fragmentByStart.set(startIndex, newFrag);
-            fragmentByEnd.set(endIndex, newFrag);
+      if (typeof thresholds === "number") {
+        // multiply instead of adding up intervals so fractional intervals don't accumulate error
+        const end = Math.floor(max / thresholds);
+        for (let i = Math.ceil(min / thresholds); i <= end; i++) {
+          let threshold = multiples.get(i);
+          if (threshold === undefined) {
+            multiples.set(i, (threshold = multipleOf(i, thresholds)));
           }
+          addSegments(threshold);
+        }
+      } else {
+        for (
+          let i = lowerBound(thresholds, min);
+          i < thresholds.length && thresholds[i] <= max;
+          i++
+        ) {
+          addSegments(thresholds[i]);
         }
       }
     }
@@ -0,0 +1,40 @@
+import placeLabels from "./labels";
+
+test("places labels along straight lines", () => {
+  expect(placeLabels([0, 100, 400, 100], 100, 1000, 4096)).toEqual([
+    { x: 50, y: 100, angle: 0 },
+  ]);
+  expect(placeLabels([0, 100, 400, 100], 100, 200, 4096)).toEqual([
+    { x: 50, y: 100, angle: 0 },
+    { x: 250, y: 100, angle: 0 },
+  ]);
+});
+
+test("rotates labels so that the top points to the left of the line", () => {
+  expect(placeLabels([100, 0, 100, 100], 100, 1000, 4096)).toEqual([
+    { x: 100, y: 50, angle: 90 },
+  ]);
+  expect(placeLabels([100, 100, 0, 100], 100, 1000, 4096)).toEqual([
+    { x: 50, y: 100, angle: 180 },
+  ]);
+});
+
+test("prefers the straightest stretch", () => {
+  const line = [0, 0, 20, 20, 40, 0, 60, 20, 80, 0, 100, 0, 200, 0];
+  expect(placeLabels(line, 100, 1000, 4096)).toEqual([
+    { x: 142, y: 0, angle: 0 },
+  ]);
+});
+
+test("skips lines that are too short or curvy", () => {
+  expect(placeLabels([0, 0, 50, 0], 100, 1000, 4096)).toEqual([]);
+  const zigzag = [0, 0, 20, 20, 40, 0, 60, 20, 80, 0, 100, 20, 120, 0];
+  expect(placeLabels(zigzag, 100, 1000, 4096)).toEqual([]);
+});
+
+test("leaves labels outside the tile to neighboring tiles", () => {
+  // the first label at x=-50 belongs to the tile on the left, but still keeps others away
+  expect(placeLabels([-100, 100, 500, 100], 100, 300, 4096)).toEqual([
+    { x: 250, y: 100, angle: 0 },
+  ]);
+});
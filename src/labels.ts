@@ -0,0 +1,93 @@
+export interface LabelAnchor {
+  x: number;
+  y: number;
+  /** Clockwise rotation in degrees so that the top of the label points uphill */
+  angle: number;
+}
+
+/** Stretches of line that turn more than this in total are too curvy to label. */
+const MAX_TURN = Math.PI / 4;
+
+function turn(line: number[], i: number): number {
+  const a = Math.atan2(line[i + 1] - line[i - 1], line[i] - line[i - 2]);
+  const b = Math.atan2(line[i + 3] - line[i + 1], line[i + 2] - line[i]);
+  const diff = Math.abs(b - a);
+  return diff > Math.PI ? 2 * Math.PI - diff : diff;
+}
+
+/**
+ * Finds label positions along a contour line on its straightest stretches.
+ *
+ * @param line `[x1, y1, x2, y2, ...]` contour line in tile coordinates with higher ground on its left
+ * @param length Length of the straight stretch of line each label needs, in tile coordinates
+ * @param spacing Minimum distance along the line between labels, in tile coordinates
+ * @param extent Vector tile extent, only anchors inside the tile are returned so each label is placed by one tile
+ * @returns label anchors, ordered from the straightest stretch to the most curved one
+ */
+export default function placeLabels(
+  line: number[],
+  length: number,
+  spacing: number,
+  extent: number,
+): LabelAnchor[] {
+  const distances = [0];
+  for (let i = 2; i < line.length; i += 2) {
+    distances.push(
+      distances[distances.length - 1] +
+        Math.hypot(line[i] - line[i - 2], line[i + 1] - line[i - 1]),
+    );
+  }
+  const total = distances[distances.length - 1];
+  if (total < length || length <= 0) {
+    return [];
+  }
+
+  const pointAt = (distance: number): [number, number] => {
+    let i = 1;
+    while (i < distances.length - 1 && distances[i] < distance) i++;
+    const segment = distances[i] - distances[i - 1];
+    const t = segment === 0 ? 0 : (distance - distances[i - 1]) / segment;
+    return [
+      line[i * 2 - 2] + t * (line[i * 2] - line[i * 2 - 2]),
+      line[i * 2 - 1] + t * (line[i * 2 + 1] - line[i * 2 - 1]),
+    ];
+  };
+
+  const candidates: { distance: number; curvature: number }[] = [];
+  const step = length / 4;
+  for (let start = 0; start + length <= total; start += step) {
+    let curvature = 0;
+    for (let i = 1; i < distances.length - 1; i++) {
+      if (distances[i] > start && distances[i] < start + length) {
+        curvature += turn(line, i * 2);
+      }
+    }
+    if (curvature <= MAX_TURN) {
+      candidates.push({ distance: start + length / 2, curvature });
+    }
+  }
+  candidates.sort((a, b) => a.curvature - b.curvature);
+
+  const placed: number[] = [];
+  const result: LabelAnchor[] = [];
+  for (const { distance } of candidates) {
+    if (placed.some((other) => Math.abs(other - distance) < spacing)) {
+      continue;
+    }
+    // labels in the buffer still keep others away, since the neighboring tile places them
+    placed.push(distance);
+    const [x, y] = pointAt(distance);
+    if (x < 0 || y < 0 || x >= extent || y >= extent) {
+      continue;
+    }
+    // text runs along the line with its top on the left, which is uphill
+    const [x1, y1] = pointAt(distance - length / 2);
+    const [x2, y2] = pointAt(distance + length / 2);
+    result.push({
+      x: Math.round(x),
+      y: Math.round(y),
+      angle: Math.round((Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI),
+    });
+  }
+  return result;
+}
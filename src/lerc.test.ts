@@ -0,0 +1,94 @@
+import decodeImage from "./decode-image";
+import decodeLerc from "./lerc";
+
+// blobs written by the reference LERC encoder
+const base64 = (data: string) => Uint8Array.from(Buffer.from(data, "base64"));
+const lerc = (data: string) => base64(data).buffer as ArrayBuffer;
+
+test("decode lossless float32 lerc2 v2", () => {
+  const blob =
+    "TGVyYzIgAgAAAAMAAAAEAAAADAAAAAgAAABvAAAABgAAAAAAAAAAAAAAAAAAAAAAWUAAAAAAAEBqQAAAAAABAADIQgAA3EIAAPBCAAACQwAADEMAABZDAAAgQwAAKkMAADRDAAA+QwAASEMAAFJD";
+  expect(decodeLerc(lerc(blob))).toEqual({
+    width: 4,
+    height: 3,
+    data: Float32Array.from(Array.from({ length: 12 }, (_, i) => 100 + 10 * i)),
+  });
+});
+
+test("decode int16 lerc2 v3 with a mask", () => {
+  const blob =
+    "TGVyYzIgAwAAAC/Q3awDAAAAAwAAAAcAAAAIAAAAVgAAAAIAAAAAAAAAAADgPwAAAAAAAGnAAAAAAADAckAGAAAAAgDd/wCAAAE4/4kHw5BRow9A2TI=";
+  expect(decodeLerc(lerc(blob))).toEqual({
+    width: 3,
+    height: 3,
+    data: Float32Array.from([-5, 0, NaN, 12, 300, -200, NaN, 2, 3]),
+  });
+});
+
+test("decode lossy float32 lerc2 v4", () => {
+  const blob =
+    "TGVyYzIgBAAAALw2UksEAAAABAAAAAEAAAAQAAAACAAAAGgAAAAGAAAAAAAAAAAA8D8AAAAgguKFQAAAAGB9SpRAAAAAABEUL0TrU6JEAAERFC9EiRCWjs2jiHKlR4HaVuVZQkIBAAM=";
+  const { width, height, data } = decodeLerc(lerc(blob));
+  expect([width, height]).toEqual([4, 4]);
+  data.forEach((value, i) => {
+    // within the max error of 1
+    expect(Math.abs(value - (1000 + 300 * Math.sin(i / 3)))).toBeLessThan(1);
+  });
+});
+
+test("decode lerc2 v6 with a lookup table", () => {
+  const blob =
+    "TGVyYzIgBgAAAAtn8loIAAAACAAAAAEAAABAAAAACAAAAMQAAAAGAAAAAAAAAAABAAAAAAAAAADgPwAAAAAAAETAAAAAAABAn0AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIMIAAPpEAEHY/4tAKAAA/qmCAgDgnyooAAD+qYICAOCfKigAAP6pggIA4J8qKAAA/qmCAgDgnyooAAD+qYICAOCfKigAAP6pggIA4J8qKAAA/qmCAgDgnyooAAD+qYICAOCfKg==";
+  expect(decodeLerc(lerc(blob))).toEqual({
+    width: 8,
+    height: 8,
+    data: Float32Array.from(
+      Array.from({ length: 64 }, (_, i) => [0, 300, 2000, -40][(i * 7) % 4]),
+    ),
+  });
+});
+
+test("decode constant lerc2", () => {
+  const blob =
+    "TGVyYzIgAwAAAIDliVgCAAAAAwAAAAYAAAAIAAAAQgAAAAYAAAAAAAAAAAAAAAAAAAAAAEVAAAAAAAAARUAAAAAA";
+  expect(decodeLerc(lerc(blob))).toEqual({
+    width: 3,
+    height: 2,
+    data: new Float32Array(6).fill(42),
+  });
+});
+
+test("decode lerc1 with a mask", () => {
+  // one bit stuffed tile of offsets from 100 with a max error of 0.5
+  const blob =
+    "Q250WkltYWdlIAsAAAAIAAAAAgAAAAMAAAAAAAAAAADgPwAAAAAAAAAABQAAAAAAgD8BANwAgAEAAAABAAAACAAAAAAkdElBZACEBRB/Aw==";
+  expect(decodeLerc(lerc(blob))).toEqual({
+    width: 3,
+    height: 2,
+    data: Float32Array.from([100, 103, NaN, 107, 115, 101]),
+  });
+});
+
+test("unsupported and invalid blobs", () => {
+  // header of a lossless float32 v6 blob, which uses a compression mode that isn't supported
+  const lossless =
+    "TGVyYzIgBgAAAIruIB8IAAAACAAAAAEAAABAAAAACAAAAEsBAAAGAAAAAAAAAAAAAAAAAAAAAAAAAAAAAMAIs4pAAAAAgPEClEAAAAAAAAAAAAAAAAAAAAAAAAAAAEaYVUSMF6BEAAMAAABB";
+  expect(() => decodeLerc(lerc(lossless))).toThrow(
+    "Unsupported LERC compression mode: 3, Huffman coded blobs can't be decoded",
+  );
+  expect(() => decodeLerc(new ArrayBuffer(10))).toThrow("Not a LERC blob");
+  expect(() => decodeLerc(lerc(lossless).slice(0, 30))).toThrow(
+    "Truncated LERC blob",
+  );
+});
+
+test("decode lerc encoding without a canvas", async () => {
+  const blob =
+    "TGVyYzIgAwAAAIDliVgCAAAAAwAAAAYAAAAIAAAAQgAAAAYAAAAAAAAAAAAAAAAAAAAAAEVAAAAAAAAARUAAAAAA";
+  const data = { arrayBuffer: async () => lerc(blob) } as Blob;
+  expect(await decodeImage(data, "lerc", new AbortController())).toEqual({
+    width: 3,
+    height: 2,
+    data: new Float32Array(6).fill(42),
+  });
+});
@@ -0,0 +1,376 @@
+import type { DemTile } from "./types";
+
+const LERC1_MAGIC = "CntZImage ";
+const LERC2_MAGIC = "Lerc2 ";
+
+interface LercType {
+  size: number;
+  read: (view: DataView, offset: number) => number;
+}
+
+/** How to read values for each LERC2 data type code. */
+const LERC_TYPES: LercType[] = [
+  { size: 1, read: (view, i) => view.getInt8(i) },
+  { size: 1, read: (view, i) => view.getUint8(i) },
+  { size: 2, read: (view, i) => view.getInt16(i, true) },
+  { size: 2, read: (view, i) => view.getUint16(i, true) },
+  { size: 4, read: (view, i) => view.getInt32(i, true) },
+  { size: 4, read: (view, i) => view.getUint32(i, true) },
+  { size: 4, read: (view, i) => view.getFloat32(i, true) },
+  { size: 8, read: (view, i) => view.getFloat64(i, true) },
+];
+const TYPE_CHAR = 0;
+const TYPE_UCHAR = 1;
+const TYPE_SHORT = 2;
+const TYPE_INT = 4;
+const TYPE_FLOAT = 6;
+const TYPE_DOUBLE = 7;
+
+/** Reads values from a LERC blob in order, checking that they don't run past the end. */
+class LercReader {
+  view: DataView;
+  pos: number;
+
+  constructor(view: DataView, pos: number) {
+    this.view = view;
+    this.pos = pos;
+  }
+
+  skip(length: number): number {
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.view.byteLength) {
+      throw new Error("Truncated LERC blob");
+    }
+    return start;
+  }
+
+  byte = (): number => this.view.getUint8(this.skip(1));
+  int = (): number => this.view.getInt32(this.skip(4), true);
+  uint = (): number => this.view.getUint32(this.skip(4), true);
+  float = (): number => this.view.getFloat32(this.skip(4), true);
+  double = (): number => this.view.getFloat64(this.skip(8), true);
+  value = (type: number): number =>
+    LERC_TYPES[type].read(this.view, this.skip(LERC_TYPES[type].size));
+}
+
+/**
+ * Unpacks `count` integers of `bits` bits each. LERC2 v3 and later fill each byte starting from the least
+ * significant bit, earlier versions fill 32-bit little-endian words starting from the most significant bit.
+ */
+function unstuffBits(
+  reader: LercReader,
+  count: number,
+  bits: number,
+  lsbFirst: boolean,
+): Uint32Array {
+  const result = new Uint32Array(count);
+  if (bits === 0) return result;
+  if (bits > 32) throw new Error("Corrupt LERC block");
+  const length = Math.ceil((count * bits) / 8);
+  const start = reader.view.byteOffset + reader.skip(length);
+  const source = new Uint8Array(reader.view.buffer, start, length);
+  // padded so that reading 5 bytes at a time never runs past the end
+  const bytes = new Uint8Array(length + 4);
+  if (lsbFirst) {
+    bytes.set(source);
+  } else {
+    // put the bytes in the order their bits get read, where the last word only holds the bytes that are needed
+    for (let i = 0; i < length; i++) {
+      const word = i - (i % 4);
+      bytes[i] = source[word + Math.min(4, length - word) - 1 - (i % 4)];
+    }
+  }
+  const mask = bits < 32 ? (1 << bits) - 1 : -1;
+  for (let i = 0, pos = 0; i < count; i++, pos += bits) {
+    const b = pos >>> 3;
+    const shift = pos & 7;
+    if (lsbFirst) {
+      const low =
+        (bytes[b] |
+          (bytes[b + 1] << 8) |
+          (bytes[b + 2] << 16) |
+          (bytes[b + 3] << 24)) >>>
+        shift;
+      const high = shift ? bytes[b + 4] << (32 - shift) : 0;
+      result[i] = (low | high) & mask;
+    } else {
+      const word =
+        (((bytes[b] << 24) |
+          (bytes[b + 1] << 16) |
+          (bytes[b + 2] << 8) |
+          bytes[b + 3]) <<
+          shift) |
+        (bytes[b + 4] >>> (8 - shift));
+      result[i] = word >>> (32 - bits);
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads a list of integers packed with the smallest number of bits, or as indexes into a lookup table.
+ *
+ * @param version LERC2 version, or 1 for LERC1 which uses 6 bits for the number of bits and no lookup tables
+ */
+function readBitStuffed(
+  reader: LercReader,
+  version: number,
+  maxCount: number,
+): Uint32Array {
+  const header = reader.byte();
+  const countBytes = 4 >> (header >> 6);
+  const count =
+    countBytes === 1
+      ? reader.byte()
+      : countBytes === 2
+        ? reader.view.getUint16(reader.skip(2), true)
+        : reader.uint();
+  if (count > maxCount) {
+    throw new Error("Corrupt LERC block");
+  }
+  const bits = header & (version >= 2 ? 31 : 63);
+  const lsbFirst = version >= 3;
+  if (version >= 2 && header & 32) {
+    // the first entry of the lookup table is always 0
+    const lutLength = reader.byte() - 1;
+    const lut = [0, ...unstuffBits(reader, lutLength, bits, lsbFirst)];
+    let indexBits = 0;
+    while (lutLength >> indexBits) indexBits++;
+    return unstuffBits(reader, count, indexBits, lsbFirst).map((i) => lut[i]);
+  }
+  return unstuffBits(reader, count, bits, lsbFirst);
+}
+
+/** Decodes a run-length encoded bitmask of valid pixels, where runs are preceded by a 16-bit count. */
+function readMask(reader: LercReader, length: number): Uint8Array {
+  const mask = new Uint8Array(Math.ceil(length / 8));
+  let i = 0;
+  for (
+    let count = reader.view.getInt16(reader.skip(2), true);
+    count !== -32768;
+    count = reader.view.getInt16(reader.skip(2), true)
+  ) {
+    if (count > 0) {
+      while (count--) mask[i++] = reader.byte();
+    } else {
+      const value = reader.byte();
+      for (count = -count; count > 0; count--) mask[i++] = value;
+    }
+  }
+  return mask;
+}
+
+/** Returns the smaller type that an offset of a block of values uses. */
+function offsetType(type: number, reduction: number): number {
+  switch (type) {
+    case TYPE_SHORT:
+    case TYPE_INT:
+      return type - reduction;
+    case TYPE_SHORT + 1:
+    case TYPE_INT + 1:
+      return type - 2 * reduction;
+    case TYPE_FLOAT:
+      return [TYPE_FLOAT, TYPE_SHORT, TYPE_UCHAR][reduction];
+    case TYPE_DOUBLE:
+      return [TYPE_DOUBLE, TYPE_FLOAT, TYPE_INT, TYPE_SHORT][reduction];
+    default:
+      return type;
+  }
+}
+
+function decodeLerc2(view: DataView): DemTile {
+  const reader = new LercReader(view, LERC2_MAGIC.length);
+  const version = reader.int();
+  if (version < 2 || version > 6) {
+    throw new Error(`Unsupported LERC version: ${version}`);
+  }
+  if (version >= 3) reader.skip(4); // checksum
+  const height = reader.int();
+  const width = reader.int();
+  const depth = version >= 4 ? reader.int() : 1;
+  const validCount = reader.int();
+  const blockSize = reader.int();
+  reader.skip(4); // blob size
+  const type = reader.int();
+  if (version >= 6) reader.skip(8); // count of more bands, and flags
+  const maxZError = reader.double();
+  const zMin = reader.double();
+  const zMax = reader.double();
+  if (version >= 6) reader.skip(16); // no data values for pixels with depth
+  if (depth !== 1) {
+    throw new Error(`Unsupported LERC depth: ${depth}`);
+  }
+  if (!LERC_TYPES[type]) {
+    throw new Error(`Unsupported LERC data type: ${type}`);
+  }
+
+  const size = width * height;
+  const data = new Float32Array(size).fill(NaN);
+  const maskLength = reader.int();
+  const mask =
+    validCount < size && maskLength > 0 ? readMask(reader, size) : undefined;
+  const isValid = (i: number) =>
+    validCount > 0 && (!mask || (mask[i >> 3] & (128 >> (i & 7))) !== 0);
+  if (validCount === 0) {
+    return { width, height, data };
+  }
+  if (zMin === zMax) {
+    for (let i = 0; i < size; i++) if (isValid(i)) data[i] = zMin;
+    return { width, height, data };
+  }
+  if (version >= 4) reader.skip(2 * LERC_TYPES[type].size); // min and max
+
+  if (reader.byte()) {
+    // stored without compression
+    for (let i = 0; i < size; i++) {
+      if (isValid(i)) data[i] = reader.value(type);
+    }
+    return { width, height, data };
+  }
+  if (
+    (type <= TYPE_UCHAR && maxZError === 0.5) ||
+    (version >= 6 && type >= TYPE_FLOAT && maxZError === 0)
+  ) {
+    // lossless 8-bit and v6 lossless float blobs can be Huffman coded instead of split into blocks
+    const mode = reader.byte();
+    if (mode !== 0) {
+      throw new Error(
+        `Unsupported LERC compression mode: ${mode}, Huffman coded blobs can't be decoded`,
+      );
+    }
+  }
+
+  const scale = 2 * maxZError;
+  for (let blockY = 0; blockY * blockSize < height; blockY++) {
+    for (let blockX = 0; blockX * blockSize < width; blockX++) {
+      const x0 = blockX * blockSize;
+      const y0 = blockY * blockSize;
+      const x1 = Math.min(width, x0 + blockSize);
+      const y1 = Math.min(height, y0 + blockSize);
+      const header = reader.byte();
+      // the middle bits check the position of the block, and v5 took one of them over for pixels with depth
+      if (
+        version >= 5
+          ? ((header >> 3) & 7) !== ((x0 >> 4) & 7)
+          : ((header >> 2) & 15) !== ((x0 >> 3) & 15)
+      ) {
+        throw new Error("Corrupt LERC block");
+      }
+      const encoding = header & 3;
+      const offset =
+        encoding === 1 || encoding === 3
+          ? reader.value(offsetType(type, header >> 6))
+          : 0;
+      const values =
+        encoding === 1
+          ? readBitStuffed(reader, version, (x1 - x0) * (y1 - y0))
+          : undefined;
+      let v = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = y * width + x;
+          if (!isValid(i)) continue;
+          if (encoding === 0) {
+            data[i] = reader.value(type);
+          } else if (values) {
+            data[i] = Math.min(offset + values[v++] * scale, zMax);
+          } else {
+            data[i] = offset;
+          }
+        }
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/** Decodes LERC1, where each tile of pixels is stored as 32-bit floats or integer offsets from a minimum. */
+function decodeLerc1(view: DataView): DemTile {
+  const reader = new LercReader(view, LERC1_MAGIC.length);
+  const version = reader.int();
+  reader.skip(4); // image type
+  if (version !== 11) {
+    throw new Error(`Unsupported LERC version: ${version}`);
+  }
+  const height = reader.int();
+  const width = reader.int();
+  const maxZError = reader.double();
+  const size = width * height;
+  const data = new Float32Array(size).fill(NaN);
+
+  reader.skip(8); // tiles of the mask, which are always 0
+  const maskLength = reader.int();
+  const maskMax = reader.float();
+  const mask = maskLength > 0 ? readMask(reader, size) : undefined;
+  if (!mask && maskMax === 0) {
+    return { width, height, data };
+  }
+  const isValid = (i: number) =>
+    !mask || (mask[i >> 3] & (128 >> (i & 7))) !== 0;
+
+  const tilesY = reader.int();
+  const tilesX = reader.int();
+  reader.skip(4); // byte count
+  const zMax = reader.float();
+  const scale = 2 * maxZError;
+  if (tilesY < 1 || tilesX < 1 || tilesY > height || tilesX > width) {
+    throw new Error("Corrupt LERC blob");
+  }
+  const tileHeight = Math.floor(height / tilesY);
+  const tileWidth = Math.floor(width / tilesX);
+  // pixels left over go in an extra row and column of tiles
+  for (let tileY = 0; tileY <= tilesY; tileY++) {
+    const y0 = tileY * tileHeight;
+    const y1 = tileY < tilesY ? y0 + tileHeight : height;
+    for (let tileX = 0; tileX <= tilesX && y1 > y0; tileX++) {
+      const x0 = tileX * tileWidth;
+      const x1 = tileX < tilesX ? x0 + tileWidth : width;
+      if (x1 === x0) continue;
+      const header = reader.byte();
+      const encoding = header & 63;
+      if (encoding > 3 || header >> 6 === 3) {
+        throw new Error("Corrupt LERC block");
+      }
+      const offset =
+        encoding === 1 || encoding === 3
+          ? reader.value([TYPE_FLOAT, TYPE_SHORT, TYPE_CHAR][header >> 6])
+          : 0;
+      const values =
+        encoding === 1
+          ? readBitStuffed(reader, 1, (x1 - x0) * (y1 - y0))
+          : undefined;
+      let v = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = y * width + x;
+          if (!isValid(i)) continue;
+          if (encoding === 0) {
+            data[i] = reader.float();
+          } else if (values) {
+            data[i] = Math.min(offset + values[v++] * scale, zMax);
+          } else {
+            data[i] = offset;
+          }
+        }
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Decodes the first band of a LERC1 or LERC2 encoded raster into a DEM tile, with `NaN` for pixels that are not valid.
+ */
+export default function decodeLerc(buffer: ArrayBuffer): DemTile {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(
+    ...new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 10)),
+  );
+  if (magic.startsWith(LERC2_MAGIC)) {
+    return decodeLerc2(view);
+  } else if (magic === LERC1_MAGIC) {
+    return decodeLerc1(view);
+  }
+  throw new Error("Not a LERC blob");
+}
@@ -1,20 +1,58 @@
 import AsyncCache from "./cache";
+import clipLine, { clipRing, isClosed } from "./clip";
 import defaultDecodeImage from "./decode-image";
 import { HeightTile } from "./height-tile";
-import generateIsolines from "./isolines";
-import { encodeIndividualOptions, isAborted, withTimeout } from "./utils";
+import hillshade from "./hillshade";
+import placeLabels from "./labels";
+import { PMTilesArchive, isPMTilesUrl } from "./pmtiles";
+import findPeaks from "./peaks";
+import encodePng from "./png";
+import { sampleLine, summarizeProfile } from "./profile";
+import generateIsolines, {
+  generateIsobands,
+  reverseLine,
+  ringArea,
+} from "./isolines";
+import simplifyLine from "./simplify";
+import slopeDegrees, { pixelSizeMeters } from "./slope";
+import smoothIsolines from "./smooth";
+import elevationStatistics from "./statistics";
+import findStreams from "./streams";
+import {
+  encodeHillshadeOptions,
+  encodeIndividualOptions,
+  isAborted,
+  isMultiple,
+  lngLatToTile,
+  multiplesBetween,
+  tileToLngLat,
+  withTimeout,
+} from "./utils";
 import type {
   ContourTile,
   DecodeImageFunction,
   DemManager,
   DemManagerInitizlizationParameters,
   DemTile,
+  ElevationProfile,
+  ElevationProfileOptions,
+  ElevationStatistics,
+  ElevationStatisticsOptions,
   Encoding,
   FetchResponse,
+  GetRangeFunction,
   GetTileFunction,
+  HillshadeOptions,
+  HillshadeTile,
   IndividualContourTileOptions,
+  LineString,
+  Polygon,
+  Viewshed,
+  ViewshedOptions,
 } from "./types";
+import viewshed, { maskToPolygons } from "./viewshed";
 import encodeVectorTile, { GeomType } from "./vtpbf";
+import type { Feature, Tile } from "./vtpbf";
 import { Timer } from "./performance";
 
 const defaultGetTile: GetTileFunction = async (
@@ -35,6 +73,92 @@ const defaultGetTile: GetTileFunction = async (
   };
 };
 
+const defaultGetRange: GetRangeFunction = async (
+  url: string,
+  offset: number,
+  length: number,
+  abortController: AbortController,
+) => {
+  const response = await fetch(url, {
+    signal: abortController.signal,
+    headers: { range: `bytes=${offset}-${offset + length - 1}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Bad response: ${response.status} for ${url}`);
+  }
+  const data = await response.arrayBuffer();
+  // servers that don't support range requests send the whole file
+  return response.status === 200 ? data.slice(offset, offset + length) : data;
+};
+
+type LineKind = "open" | "hill" | "depression";
+
+/**
+ * Clips contour lines traced past the edge of the tile down to the buffered tile, and records whether
+ * each remaining line came from an open line or a ring around higher or lower ground.
+ */
+function clipAndClassify(
+  isolines: { [ele: number]: number[][] },
+  min: number,
+  max: number,
+): {
+  isolines: { [ele: number]: number[][] };
+  kinds: { [ele: number]: LineKind[] };
+} {
+  const clipped: { [ele: number]: number[][] } = {};
+  const kinds: { [ele: number]: LineKind[] } = {};
+  for (const ele in isolines) {
+    for (const line of isolines[ele]) {
+      // lines have higher ground on the left, so clockwise rings enclose lower ground
+      const kind: LineKind = !isClosed(line)
+        ? "open"
+        : ringArea(line) > 0
+          ? "depression"
+          : "hill";
+      for (const part of clipLine(line, min, max)) {
+        (clipped[ele] || (clipped[ele] = [])).push(part);
+        (kinds[ele] || (kinds[ele] = [])).push(kind);
+      }
+    }
+  }
+  return { isolines: clipped, kinds };
+}
+
+/**
+ * Replaces each contour line with the result of `fn`, and drops lines (and their kind) where it returns `undefined`.
+ */
+function mapLines(
+  isolines: { [ele: number]: number[][] },
+  kinds: { [ele: number]: LineKind[] } | undefined,
+  fn: (line: number[]) => number[] | undefined,
+) {
+  for (const ele in isolines) {
+    const lines: number[][] = [];
+    const lineKinds: LineKind[] = [];
+    isolines[ele].forEach((line, i) => {
+      const result = fn(line);
+      if (result) {
+        lines.push(result);
+        if (kinds) lineKinds.push(kinds[ele][i]);
+      }
+    });
+    if (lines.length > 0) {
+      isolines[ele] = lines;
+      if (kinds) kinds[ele] = lineKinds;
+    } else {
+      delete isolines[ele];
+    }
+  }
+}
+
+function lineLength(line: number[]): number {
+  let length = 0;
+  for (let i = 2; i < line.length; i += 2) {
+    length += Math.hypot(line[i] - line[i - 2], line[i + 1] - line[i - 1]);
+  }
+  return length;
+}
+
 /**
  * Caches, decodes, and processes raster tiles in the current thread.
  */
@@ -42,6 +166,7 @@ export class LocalDemManager implements DemManager {
   tileCache: AsyncCache<string, FetchResponse>;
   parsedCache: AsyncCache<string, DemTile>;
   contourCache: AsyncCache<string, ContourTile>;
+  hillshadeCache: AsyncCache<string, HillshadeTile>;
   demUrlPattern: string;
   encoding: Encoding;
   maxzoom: number;
@@ -49,17 +174,67 @@ export class LocalDemManager implements DemManager {
   loaded = Promise.resolve();
   decodeImage: DecodeImageFunction;
   getTile: GetTileFunction;
+  getRange: GetRangeFunction;
+  pmtiles?: PMTilesArchive;
 
   constructor(options: DemManagerInitizlizationParameters) {
     this.tileCache = new AsyncCache(options.cacheSize);
     this.parsedCache = new AsyncCache(options.cacheSize);
     this.contourCache = new AsyncCache(options.cacheSize);
+    this.hillshadeCache = new AsyncCache(options.cacheSize);
     this.timeoutMs = options.timeoutMs;
     this.demUrlPattern = options.demUrlPattern;
-    this.encoding = options.encoding;
-    this.maxzoom = options.maxzoom;
+    this.encoding = options.encoding || "terrarium";
+    this.maxzoom = options.maxzoom ?? 12;
     this.decodeImage = options.decodeImage || defaultDecodeImage;
     this.getTile = options.getTile || defaultGetTile;
+    this.getRange = options.getRange || defaultGetRange;
+    if (isPMTilesUrl(options.demUrlPattern)) {
+      const archive: PMTilesArchive = (this.pmtiles = new PMTilesArchive(
+        options.demUrlPattern,
+        (offset, length, abortController) =>
+          withTimeout(
+            this.timeoutMs,
+            this.getRange(archive.url, offset, length, abortController),
+            abortController,
+          ),
+        options.cacheSize,
+      ));
+      // gives each tile a distinct cache key
+      this.demUrlPattern = `${options.demUrlPattern}/{z}/{x}/{y}`;
+      if (options.maxzoom === undefined || options.encoding === undefined) {
+        this.loaded = this.loadPMTilesDefaults(archive, options);
+      }
+    }
+  }
+
+  /**
+   * Fills in the max zoom and encoding that were not provided from the header and metadata of a PMTiles
+   * archive, leaving the defaults in place if they can't be read.
+   */
+  async loadPMTilesDefaults(
+    archive: PMTilesArchive,
+    { maxzoom, encoding }: DemManagerInitizlizationParameters,
+  ): Promise<void> {
+    const abortController = new AbortController();
+    try {
+      const { header } = await archive.getHeader(abortController);
+      if (maxzoom === undefined) {
+        this.maxzoom = header.maxZoom;
+      }
+      if (encoding === undefined) {
+        const metadata = await archive.getMetadata(abortController);
+        if (
+          metadata?.encoding === "terrarium" ||
+          metadata?.encoding === "mapbox" ||
+          metadata?.encoding === "lerc"
+        ) {
+          this.encoding = metadata.encoding;
+        }
+      }
+    } catch (_) {
+      // requests for tiles will surface the error
+    }
   }
 
   fetchTile(
@@ -81,7 +256,10 @@ export class LocalDemManager implements DemManager {
         const mark = timer?.marker("fetch");
         return withTimeout(
           this.timeoutMs,
-          this.getTile(url, childAbortController).finally(() => mark?.()),
+          (this.pmtiles
+            ? this.pmtiles.getTile(z, x, y, childAbortController)
+            : this.getTile(url, childAbortController)
+          ).finally(() => mark?.()),
           childAbortController,
         );
       },
@@ -107,6 +285,7 @@ export class LocalDemManager implements DemManager {
     return this.parsedCache.get(
       url,
       async (_, childAbortController) => {
+        await self.loaded;
         const response = await self.fetchTile(
           z,
           x,
@@ -133,10 +312,11 @@ export class LocalDemManager implements DemManager {
     z: number,
     x: number,
     y: number,
-    options: IndividualContourTileOptions,
+    options: { overzoom?: number },
     abortController: AbortController,
     timer?: Timer,
   ): Promise<HeightTile> {
+    await this.loaded;
     const zoom = Math.min(z - (options.overzoom || 0), this.maxzoom);
     const subZ = z - zoom;
     const div = 1 << subZ;
@@ -154,6 +334,288 @@ export class LocalDemManager implements DemManager {
     return HeightTile.fromRawDem(tile).split(subZ, x % div, y % div);
   }
 
+  /**
+   * Fetches a DEM tile along with its 8 neighbors, so that values outside the bounds of the tile can be
+   * requested, or `undefined` if the tile is outside the map.
+   */
+  async fetchDemWithNeighbors(
+    z: number,
+    x: number,
+    y: number,
+    options: { overzoom?: number },
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<HeightTile | undefined> {
+    const max = 1 << z;
+    const neighborPromises: (Promise<HeightTile> | undefined)[] = [];
+    for (let iy = y - 1; iy <= y + 1; iy++) {
+      for (let ix = x - 1; ix <= x + 1; ix++) {
+        neighborPromises.push(
+          iy < 0 || iy >= max
+            ? undefined
+            : this.fetchDem(
+                z,
+                (ix + max) % max,
+                iy,
+                options,
+                abortController,
+                timer,
+              ),
+        );
+      }
+    }
+    const neighbors = await Promise.all(neighborPromises);
+    return HeightTile.combineNeighbors(neighbors);
+  }
+
+  /**
+   * Returns the elevation at each `[lng, lat]` point, interpolated between the closest pixels of tiles at
+   * `zoom` (or `maxzoom` when omitted or higher), or `NaN` where there is no data.
+   */
+  async fetchElevations(
+    points: [number, number][],
+    zoom: number | undefined,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<number[]> {
+    await this.loaded;
+    const z = Math.max(0, Math.min(Math.floor(zoom ?? Infinity), this.maxzoom));
+    const tiles = 1 << z;
+    return Promise.all(
+      points.map(async ([lng, lat]) => {
+        const [x, y] = lngLatToTile(lng, lat, z);
+        const tileX = Math.min(Math.floor(x), tiles - 1);
+        const tileY = Math.min(Math.floor(y), tiles - 1);
+        const tile = await this.fetchDem(
+          z,
+          tileX,
+          tileY,
+          {},
+          abortController,
+          timer,
+        );
+        const pixelX = (x - tileX) * tile.width;
+        const pixelY = (y - tileY) * tile.height;
+        // points between the outermost pixel centers and the tile edge also need the pixels across that edge
+        const dx = pixelX < 0.5 ? -1 : pixelX > tile.width - 0.5 ? 1 : 0;
+        const dy = pixelY < 0.5 ? -1 : pixelY > tile.height - 0.5 ? 1 : 0;
+        if (dx === 0 && dy === 0) {
+          return tile.interpolate(pixelX, pixelY);
+        }
+        const neighborPromises: (Promise<HeightTile> | undefined)[] = [];
+        for (let iy = -1; iy <= 1; iy++) {
+          for (let ix = -1; ix <= 1; ix++) {
+            const needed =
+              (ix === 0 || ix === dx) &&
+              (iy === 0 || iy === dy) &&
+              tileY + iy >= 0 &&
+              tileY + iy < tiles;
+            neighborPromises.push(
+              needed
+                ? this.fetchDem(
+                    z,
+                    (tileX + ix + tiles) % tiles,
+                    tileY + iy,
+                    {},
+                    abortController,
+                    timer,
+                  )
+                : undefined,
+            );
+          }
+        }
+        const neighbors = HeightTile.combineNeighbors(
+          await Promise.all(neighborPromises),
+        );
+        return neighbors ? neighbors.interpolate(pixelX, pixelY) : NaN;
+      }),
+    );
+  }
+
+  /**
+   * Samples elevations every `interval` meters along a line, only fetching the tiles that the line crosses.
+   */
+  async fetchElevationProfile(
+    line: LineString,
+    { interval = 10, zoom }: ElevationProfileOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationProfile> {
+    const { points, distances } = sampleLine(line.coordinates, interval);
+    const elevations = await this.fetchElevations(
+      points,
+      zoom,
+      abortController,
+      timer,
+    );
+    return summarizeProfile(distances, elevations);
+  }
+
+  /**
+   * Computes statistics of the elevations in an area, from every tile that it covers.
+   */
+  async fetchElevationStatistics(
+    area: [number, number, number, number] | Polygon,
+    options: ElevationStatisticsOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationStatistics> {
+    await this.loaded;
+    return elevationStatistics(area, options, this.maxzoom, (z, x, y) =>
+      this.fetchAndParseTile(z, x, y, abortController, timer),
+    );
+  }
+
+  /**
+   * Computes the area visible from an observer, using every tile within `radius` of it.
+   */
+  async fetchViewshed(
+    lng: number,
+    lat: number,
+    {
+      radius,
+      observerHeight = 1.7,
+      targetHeight = 0,
+      curvature = false,
+      zoom,
+      maxTiles = 16,
+    }: ViewshedOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<Viewshed> {
+    await this.loaded;
+    // tiles the radius reaches into around the observer, which is at least as many as the pixel window below uses
+    const tileCount = (z: number) => {
+      const [x, y] = lngLatToTile(lng, lat, z);
+      const r = radius / pixelSizeMeters(z, y, 1);
+      const rows =
+        Math.min(Math.floor(y + r), (1 << z) - 1) -
+        Math.max(Math.floor(y - r), 0) +
+        1;
+      return (Math.floor(x + r) - Math.floor(x - r) + 1) * rows;
+    };
+    let z = Math.max(0, Math.min(Math.floor(zoom ?? Infinity), this.maxzoom));
+    if (zoom === undefined) {
+      while (z > 0 && tileCount(z) > maxTiles) z--;
+    }
+    if (!(tileCount(z) <= maxTiles)) {
+      throw new Error(
+        `Viewshed radius of ${radius}m covers more than ${maxTiles} tiles at zoom ${z}`,
+      );
+    }
+    const tiles = 1 << z;
+    const [x, y] = lngLatToTile(lng, lat, z);
+    const tileX = Math.min(Math.floor(x), tiles - 1);
+    const tileY = Math.min(Math.floor(y), tiles - 1);
+    const { width: size } = await this.fetchDem(
+      z,
+      tileX,
+      tileY,
+      {},
+      abortController,
+      timer,
+    );
+    const pixelSize = pixelSizeMeters(z, y, size);
+    const radiusPixels = radius / pixelSize;
+
+    // window of pixels around the observer, in pixels from the top-left corner of the world
+    const minX = Math.floor(x * size - radiusPixels);
+    const maxX = Math.ceil(x * size + radiusPixels);
+    const minY = Math.max(0, Math.floor(y * size - radiusPixels));
+    const maxY = Math.min(tiles * size, Math.ceil(y * size + radiusPixels));
+    const firstTileX = Math.floor(minX / size);
+    const firstTileY = Math.floor(minY / size);
+    const columns = Math.floor((maxX - 1) / size) - firstTileX + 1;
+    const rows = Math.floor((maxY - 1) / size) - firstTileY + 1;
+    const windowTiles = await Promise.all(
+      Array.from({ length: columns * rows }, (_, i) =>
+        this.fetchDem(
+          z,
+          (((firstTileX + (i % columns)) % tiles) + tiles) % tiles,
+          firstTileY + Math.floor(i / columns),
+          {},
+          abortController,
+          timer,
+        ),
+      ),
+    );
+    if (isAborted(abortController)) throw new Error("canceled");
+
+    const mark = timer?.marker("viewshed");
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const elevations = new HeightTile(width, height, (col, row) => {
+      const px = col + minX - firstTileX * size;
+      const py = row + minY - firstTileY * size;
+      const tile =
+        windowTiles[Math.floor(py / size) * columns + Math.floor(px / size)];
+      return tile ? tile.get(px % size, py % size) : NaN;
+    }).materialize(0);
+    const mask = viewshed(elevations, {
+      x: x * size - minX,
+      y: y * size - minY,
+      observerHeight,
+      targetHeight,
+      radius: radiusPixels,
+      pixelSize,
+      curvature,
+    });
+    const toLngLat = (px: number, py: number) =>
+      tileToLngLat((px + minX) / size, (py + minY) / size, z);
+    const coordinates = maskToPolygons(mask, width, height).map((polygon) =>
+      polygon.map((ring) => {
+        const result: number[][] = [];
+        for (let i = 0; i < ring.length; i += 2) {
+          result.push(toLngLat(ring[i], ring[i + 1]));
+        }
+        return result;
+      }),
+    );
+    const [west, north] = toLngLat(0, 0);
+    const [east, south] = toLngLat(width, height);
+    mark?.();
+    return {
+      width,
+      height,
+      mask,
+      bounds: [west, south, east, north],
+      geometry: { type: "MultiPolygon", coordinates },
+    };
+  }
+
+  fetchHillshadeTile(
+    z: number,
+    x: number,
+    y: number,
+    options: HillshadeOptions,
+    parentAbortController: AbortController,
+    timer?: Timer,
+  ): Promise<HillshadeTile> {
+    const key = [z, x, y, encodeHillshadeOptions(options)].join("/");
+    return this.hillshadeCache.get(
+      key,
+      async (_, childAbortController) => {
+        const tile = await this.fetchDemWithNeighbors(
+          z,
+          x,
+          y,
+          options,
+          childAbortController,
+          timer,
+        );
+        if (!tile || isAborted(childAbortController)) {
+          return { arrayBuffer: new Uint8Array().buffer };
+        }
+        const mark = timer?.marker("hillshade");
+        const shaded = hillshade(tile, z, y, options);
+        const png = await encodePng(tile.width, tile.height, shaded);
+        mark?.();
+        return { arrayBuffer: png.buffer as ArrayBuffer };
+      },
+      parentAbortController,
+    );
+  }
+
   fetchContourTile(
     z: number,
     x: number,
@@ -164,89 +626,358 @@ export class LocalDemManager implements DemManager {
   ): Promise<ContourTile> {
     const {
       levels,
+      elevations,
       multiplier = 1,
       buffer = 1,
+      clipBuffer,
       extent = 4096,
       contourLayer = "contours",
+      uphill = "left",
+      closedKey,
+      depressionKey,
+      isobandLayer,
+      labelLayer,
+      labelLength = 40,
+      labelSpacing = 256,
+      peakLayer,
+      peakIsolation = 0,
+      slopeLayer,
+      slopeClasses = [30, 35, 40, 45],
+      streamLayer,
+      streamThreshold = 100,
+      streamBuffer = 256,
+      saddleMethod,
       elevationKey = "ele",
       levelKey = "level",
       subsampleBelow = 100,
+      simplify = 0,
+      simplifyAlgorithm,
+      smooth = 0,
+      minLength = 0,
+      minArea = 0,
     } = options;
 
     // no levels means less than min zoom with levels specified
-    if (!levels || levels.length === 0) {
+    const contours = elevations?.length ? elevations : levels?.[0];
+    if (!contours) {
       return Promise.resolve({ arrayBuffer: new ArrayBuffer(0) });
     }
     const key = [z, x, y, encodeIndividualOptions(options)].join("/");
     return this.contourCache.get(
       key,
       async (_, childAbortController) => {
-        const max = 1 << z;
-        const neighborPromises: (Promise<HeightTile> | undefined)[] = [];
-        for (let iy = y - 1; iy <= y + 1; iy++) {
-          for (let ix = x - 1; ix <= x + 1; ix++) {
-            neighborPromises.push(
-              iy < 0 || iy >= max
-                ? undefined
-                : this.fetchDem(
-                    z,
-                    (ix + max) % max,
-                    iy,
-                    options,
-                    childAbortController,
-                    timer,
-                  ),
-            );
-          }
-        }
-        const neighbors = await Promise.all(neighborPromises);
-        let virtualTile = HeightTile.combineNeighbors(neighbors);
+        let virtualTile = await this.fetchDemWithNeighbors(
+          z,
+          x,
+          y,
+          options,
+          childAbortController,
+          timer,
+        );
         if (!virtualTile || isAborted(childAbortController)) {
           return { arrayBuffer: new Uint8Array().buffer };
         }
         const mark = timer?.marker("isoline");
 
-        if (virtualTile.width >= subsampleBelow) {
-          virtualTile = virtualTile.materialize(2);
+        // summits come from the original pixels since subsampling and averaging flatten them
+        const peaks = peakLayer
+          ? findPeaks(
+              virtualTile.scaleElevation(multiplier),
+              (peakIsolation * virtualTile.width) / 512,
+              extent,
+            )
+          : [];
+
+        // streams also follow the original pixels, through as much of the neighboring tiles as requested
+        const streams = streamLayer
+          ? findStreams(
+              virtualTile,
+              streamThreshold,
+              Math.min(
+                virtualTile.width,
+                Math.round((streamBuffer * virtualTile.width) / 512),
+              ),
+              extent,
+            )
+          : [];
+
+        let scale = 1;
+        while (virtualTile.width * scale < subsampleBelow) scale *= 2;
+        // lines are clipped to exactly this far past the edge of the tile, in tile units
+        const clipSize =
+          clipBuffer ?? (buffer * extent) / (virtualTile.width * scale);
+        // to tell which lines are part of rings, trace them through as much of the neighboring tiles as possible,
+        // otherwise just past where they get clipped
+        const classify = Boolean(closedKey || depressionKey);
+        const traceBuffer =
+          Math.ceil((clipSize * virtualTile.width * scale) / extent) + 1;
+        // the neighboring tiles only extend one tile width past the edge
+        // slopes also read one pixel past the polygons generated in the buffer
+        const slopeBuffer = slopeLayer ? buffer + 2 : 0;
+        let context = classify
+          ? virtualTile.width
+          : Math.min(
+              virtualTile.width,
+              Math.ceil(Math.max(traceBuffer, slopeBuffer) / scale) + 2,
+            );
+        if (scale === 1) {
+          virtualTile = virtualTile.materialize(context);
         } else {
           while (virtualTile.width < subsampleBelow) {
-            virtualTile = virtualTile.subsamplePixelCenters(2).materialize(2);
+            // subsampling reads one pixel further out than the pixels it generates
+            context = context * 2 - 2;
+            virtualTile = virtualTile
+              .subsamplePixelCenters(2)
+              .materialize(context);
           }
         }
 
         virtualTile = virtualTile
           .averagePixelCentersToGrid()
           .scaleElevation(multiplier)
-          .materialize(1);
+          .materialize(context - 1);
+        const tracePixels = classify
+          ? context - 1
+          : Math.min(traceBuffer, context - 1);
 
-        const isolines = generateIsolines(
-          levels[0],
-          virtualTile,
-          extent,
-          buffer,
+        let thresholds = contours;
+        if (
+          typeof contours === "number" &&
+          levels.some((level) => !isMultiple(level, contours))
+        ) {
+          // major lines that aren't on a multiple of the minor interval need to be generated too
+          const [min, max] = virtualTile.range(tracePixels);
+          thresholds = multiplesBetween(levels, min, max);
+        }
+
+        const clipped = clipAndClassify(
+          generateIsolines(
+            thresholds,
+            virtualTile,
+            extent,
+            tracePixels,
+            saddleMethod,
+          ),
+          -clipSize,
+          extent + clipSize,
         );
+        let isolines = clipped.isolines;
+        const kinds = classify ? clipped.kinds : undefined;
 
-        mark?.();
-        const result = encodeVectorTile({
-          extent,
-          layers: {
-            [contourLayer]: {
-              features: Object.entries(isolines).map(([eleString, geom]) => {
-                const ele = Number(eleString);
-                return {
-                  type: GeomType.LINESTRING,
-                  geometry: geom,
+        if (smooth > 0) {
+          isolines = smoothIsolines(
+            isolines,
+            smooth,
+            extent / (virtualTile.width - 1),
+          );
+        }
+
+        if (simplify > 0) {
+          // tolerance is in pixels of a 512px tile
+          const tolerance = (simplify * extent) / 512;
+          mapLines(isolines, kinds, (line) =>
+            simplifyLine(line, tolerance, extent, simplifyAlgorithm),
+          );
+        }
+
+        if (minLength > 0 || minArea > 0) {
+          // lengths and areas are in pixels of a 512px tile
+          const scale = extent / 512;
+          // lines that end at the edge of the buffer continue into the neighboring tile, so their full length is unknown
+          const onEdge = (x: number, y: number) =>
+            Math.min(x, y) <= -clipSize + 1 ||
+            Math.max(x, y) >= extent + clipSize - 1;
+          mapLines(isolines, kinds, (line) => {
+            if (isClosed(line)) {
+              return Math.abs(ringArea(line)) < minArea * scale * scale
+                ? undefined
+                : line;
+            }
+            const last = line.length - 2;
+            return lineLength(line) < minLength * scale &&
+              !onEdge(line[0], line[1]) &&
+              !onEdge(line[last], line[last + 1])
+              ? undefined
+              : line;
+          });
+        }
+
+        const levelOf = (ele: number) =>
+          Math.max(0, ...levels.map((l, i) => (isMultiple(ele, l) ? i : 0)));
+
+        // labels are placed before lines get reversed, while higher ground is still on the left
+        const labels: Feature[] = [];
+        if (labelLayer) {
+          const level = Math.max(0, levels.length - 1);
+          for (const [eleString, lines] of Object.entries(isolines)) {
+            const ele = Number(eleString);
+            if (levelOf(ele) !== level) continue;
+            for (const line of lines) {
+              for (const { x, y, angle } of placeLabels(
+                line,
+                (labelLength * extent) / 512,
+                (labelSpacing * extent) / 512,
+                extent,
+              )) {
+                labels.push({
+                  type: GeomType.POINT,
+                  geometry: [[x, y]],
                   properties: {
                     [elevationKey]: ele,
-                    [levelKey]: Math.max(
-                      ...levels.map((l, i) => (ele % l === 0 ? i : 0)),
-                    ),
+                    [levelKey]: level,
+                    angle,
                   },
-                };
-              }),
+                });
+              }
+            }
+          }
+        }
+
+        if (uphill === "right") {
+          // lines are generated with higher ground on the left
+          for (const ele in isolines) {
+            isolines[ele] = isolines[ele].map(reverseLine);
+          }
+        }
+
+        const features: Feature[] = [];
+        for (const [eleString, lines] of Object.entries(isolines)) {
+          const ele = Number(eleString);
+          const properties = {
+            [elevationKey]: ele,
+            [levelKey]: levelOf(ele),
+          };
+          if (!kinds) {
+            features.push({
+              type: GeomType.LINESTRING,
+              geometry: lines,
+              properties,
+            });
+            continue;
+          }
+          for (const kind of ["open", "hill", "depression"] as LineKind[]) {
+            const geometry = lines.filter((_, i) => kinds[ele][i] === kind);
+            if (geometry.length > 0) {
+              features.push({
+                type: GeomType.LINESTRING,
+                geometry,
+                properties: {
+                  ...properties,
+                  ...(closedKey && { [closedKey]: kind !== "open" }),
+                  ...(depressionKey &&
+                    kind !== "open" && {
+                      [depressionKey]: kind === "depression",
+                    }),
+                },
+              });
+            }
+          }
+        }
+        const layers: Tile["layers"] = { [contourLayer]: { features } };
+
+        if (isobandLayer) {
+          // bands still start below the lowest line, which a list of thresholds would leave out
+          const isobands = generateIsobands(
+            contours,
+            virtualTile,
+            extent,
+            buffer,
+            saddleMethod,
+            // band edges get smoothed and simplified like the lines drawn on top of them, but before clipping
+            // since corner cutting would pull them away from the edge of the clip window
+            (rings) => {
+              const result =
+                smooth > 0
+                  ? smoothIsolines(
+                      rings,
+                      smooth,
+                      extent / (virtualTile.width - 1),
+                    )
+                  : rings;
+              if (simplify > 0) {
+                mapLines(result, undefined, (ring) =>
+                  simplifyLine(
+                    ring,
+                    (simplify * extent) / 512,
+                    extent,
+                    simplifyAlgorithm,
+                  ),
+                );
+              }
+              return result;
             },
-          },
-        });
+          );
+          const features: Feature[] = [];
+          for (const [eleString, rings] of Object.entries(isobands)) {
+            const geometry: number[][] = [];
+            for (const ring of rings) {
+              const clippedRing = clipRing(ring, -clipSize, extent + clipSize);
+              if (clippedRing) geometry.push(clippedRing);
+            }
+            if (geometry.length > 0) {
+              features.push({
+                type: GeomType.POLYGON,
+                geometry,
+                properties: {
+                  [elevationKey]: Number(eleString),
+                },
+              });
+            }
+          }
+          layers[isobandLayer] = { features };
+        }
+
+        if (slopeLayer) {
+          const slopes = generateIsobands(
+            slopeClasses,
+            slopeDegrees(virtualTile, z, y, 1 / multiplier),
+            extent,
+            buffer,
+          );
+          layers[slopeLayer] = {
+            features: Object.entries(slopes).map(([slopeString, geom]) => ({
+              type: GeomType.POLYGON,
+              geometry: geom,
+              properties: {
+                slope: Number(slopeString),
+              },
+            })),
+          };
+        }
+
+        if (streamLayer) {
+          const features: Feature[] = [];
+          for (const { line, accumulation } of streams) {
+            const geometry = clipLine(line, -clipSize, extent + clipSize);
+            if (geometry.length > 0) {
+              features.push({
+                type: GeomType.LINESTRING,
+                geometry,
+                properties: { accumulation },
+              });
+            }
+          }
+          layers[streamLayer] = { features };
+        }
+
+        if (labelLayer) {
+          layers[labelLayer] = { features: labels };
+        }
+
+        if (peakLayer) {
+          layers[peakLayer] = {
+            features: peaks.map(({ x, y, ele }) => ({
+              type: GeomType.POINT,
+              geometry: [[x, y]],
+              properties: {
+                [elevationKey]: ele,
+              },
+            })),
+          };
+        }
+
+        mark?.();
+        const result = encodeVectorTile({ extent, layers });
         mark?.();
 
         return { arrayBuffer: result.slice().buffer };
@@ -0,0 +1,65 @@
+import { flattenDeep } from "lodash";
+import { HeightTile } from "./height-tile";
+import findPeaks from "./peaks";
+
+function heightTile(values: number[][]): HeightTile {
+  return HeightTile.fromRawDem({
+    width: values[0].length,
+    height: values.length,
+    data: Float32Array.from(flattenDeep(values)),
+  });
+}
+
+const tile = heightTile([
+  [1, 1, 1, 1],
+  [1, 5, 1, 1],
+  [1, 1, 1, 3],
+  [1, 1, 1, 1],
+]);
+
+test("finds local maxima", () => {
+  expect(findPeaks(tile, 1, 4096)).toEqual([
+    { x: 1536, y: 1536, ele: 5 },
+    { x: 3584, y: 2560, ele: 3 },
+  ]);
+});
+
+test("isolation drops summits near higher ones", () => {
+  expect(findPeaks(tile, 2, 4096)).toHaveLength(2);
+  expect(findPeaks(tile, 2.5, 4096)).toEqual([{ x: 1536, y: 1536, ele: 5 }]);
+});
+
+test("flat summits are found once", () => {
+  const flat = heightTile([
+    [1, 1, 1],
+    [1, 2, 2],
+    [1, 2, 2],
+  ]);
+  expect(findPeaks(flat, 1, 3)).toEqual([{ x: 2, y: 2, ele: 2 }]);
+});
+
+test("summits on the edge are emitted by exactly one tile", () => {
+  // 2 tiles side by side with a summit on the first column of the right tile
+  const values = [
+    [1, 1, 1, 1, 1, 1],
+    [1, 2, 3, 4, 3, 1],
+    [1, 1, 1, 1, 1, 1],
+  ];
+  const tileAt = (offset: number) =>
+    new HeightTile(3, 3, (x, y) => values[y]?.[x + offset] ?? NaN);
+  expect(findPeaks(tileAt(0), 2, 3)).toEqual([]);
+  expect(findPeaks(tileAt(3), 2, 3)).toEqual([{ x: 1, y: 2, ele: 4 }]);
+});
+
+test("ignores missing data", () => {
+  expect(
+    findPeaks(
+      heightTile([
+        [NaN, NaN],
+        [NaN, 1],
+      ]),
+      1,
+      2,
+    ),
+  ).toEqual([{ x: 2, y: 2, ele: 1 }]);
+});
@@ -0,0 +1,86 @@
+import type { HeightTile } from "./height-tile";
+
+export interface Peak {
+  x: number;
+  y: number;
+  ele: number;
+}
+
+/**
+ * Returns true if `(x, y)` is higher than every other pixel in `offsets`. On flat summits, the first
+ * pixel in row-major order wins so that exactly one pixel is chosen no matter which tile looks at it.
+ */
+function isHighest(
+  tile: HeightTile,
+  x: number,
+  y: number,
+  value: number,
+  offsets: [number, number][],
+): boolean {
+  for (const [dx, dy] of offsets) {
+    const other = tile.get(x + dx, y + dy);
+    if (
+      other > value ||
+      (other === value && (dy < 0 || (dy === 0 && dx < 0)))
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function offsetsWithin(radius: number): [number, number][] {
+  const result: [number, number][] = [];
+  const max = Math.floor(radius);
+  for (let dy = -max; dy <= max; dy++) {
+    for (let dx = -max; dx <= max; dx++) {
+      if ((dx !== 0 || dy !== 0) && dx * dx + dy * dy <= radius * radius) {
+        result.push([dx, dy]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds summits in a height tile: pixels that are higher than every other pixel within `radius`.
+ *
+ * Only pixels inside the tile are returned, but pixels up to `radius` outside the tile are compared against
+ * so that each summit is found by exactly one tile.
+ *
+ * @param tile The input height tile, where values represent the height at the center of each pixel
+ * and neighboring tiles are available outside of its bounds
+ * @param radius Minimum distance in pixels to any higher pixel, at least 1 and at most the tile width
+ * @param extent Vector tile extent (default 4096)
+ * @returns list of summits with their elevation and the center of their pixel in tile coordinates
+ */
+export default function findPeaks(
+  tile: HeightTile,
+  radius: number,
+  extent: number = 4096,
+): Peak[] {
+  const adjacent = offsetsWithin(Math.SQRT2);
+  const isolation = offsetsWithin(
+    Math.min(Math.max(radius, Math.SQRT2), tile.width),
+  );
+  const multiplier = extent / tile.width;
+  const result: Peak[] = [];
+  for (let y = 0; y < tile.height; y++) {
+    for (let x = 0; x < tile.width; x++) {
+      const value = tile.get(x, y);
+      if (
+        !isNaN(value) &&
+        // most pixels aren't local maxima, so rule them out before checking the whole radius
+        isHighest(tile, x, y, value, adjacent) &&
+        isHighest(tile, x, y, value, isolation)
+      ) {
+        result.push({
+          x: Math.round((x + 0.5) * multiplier),
+          y: Math.round((y + 0.5) * multiplier),
+          ele: value,
+        });
+      }
+    }
+  }
+  return result;
+}
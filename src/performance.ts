@@ -39,8 +39,8 @@ export class Timer {
   }
   finish = (url: string): Timing => {
     this.markFinish();
-    const get = (type: TimingCategory): number | undefined => {
-      const all = this.marks[type] || [];
+    const get = (...types: TimingCategory[]): number | undefined => {
+      const all = types.flatMap((type) => this.marks[type] || []);
       const max = Math.max(...all.map((ns) => Math.max(...ns)));
       const min = Math.min(...all.map((ns) => Math.min(...ns)));
       return Number.isFinite(max) ? max - min : undefined;
@@ -48,7 +48,7 @@ export class Timer {
     const duration = get("main") || 0;
     const fetch = get("fetch");
     const decode = get("decode");
-    const process = get("isoline");
+    const process = get("isoline", "hillshade", "viewshed");
     return {
       url,
       tilesUsed: this.tilesFetched,
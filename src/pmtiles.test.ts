@@ -0,0 +1,408 @@
+import { DecompressionStream } from "stream/web";
+import { TextDecoder } from "util";
+import { gzipSync } from "zlib";
+import { LocalDemManager } from "./local-dem-manager";
+import {
+  PMTilesArchive,
+  findEntry,
+  parseDirectory,
+  parseHeader,
+  zxyToTileId,
+} from "./pmtiles";
+import type { PMTilesEntry } from "./pmtiles";
+import type { DemTile, Encoding, GetRangeFunction } from "./types";
+
+// jsdom leaves out the compression streams and encoding APIs that browsers and node have
+Object.assign(global, { DecompressionStream, TextDecoder });
+
+interface ArchiveOptions {
+  /** gzip the directories and metadata */
+  gzip?: boolean;
+  /** split tiles into leaf directories with this many entries each */
+  leafSize?: number;
+  metadata?: object;
+  maxZoom: number;
+}
+
+function varints(values: number[]): number[] {
+  const result: number[] = [];
+  for (let value of values) {
+    while (value >= 128) {
+      result.push(value % 128 | 0x80);
+      value = Math.floor(value / 128);
+    }
+    result.push(value);
+  }
+  return result;
+}
+
+function writeDirectory(entries: PMTilesEntry[]): Uint8Array {
+  return Uint8Array.from([
+    ...varints([entries.length]),
+    ...varints(entries.map((e, i) => e.tileId - (entries[i - 1]?.tileId || 0))),
+    ...varints(entries.map((e) => e.runLength)),
+    ...varints(entries.map((e) => e.length)),
+    ...varints(
+      entries.map((e, i) =>
+        i > 0 && e.offset === entries[i - 1].offset + entries[i - 1].length
+          ? 0
+          : e.offset + 1,
+      ),
+    ),
+  ]);
+}
+
+/** Writes a PMTiles v3 archive, storing consecutive tiles that share the same data once. */
+function writeArchive(
+  tiles: { z: number; x: number; y: number; data: Uint8Array }[],
+  { gzip = false, leafSize, metadata = {}, maxZoom }: ArchiveOptions,
+): Uint8Array {
+  const compress = (data: Uint8Array): Uint8Array =>
+    gzip ? new Uint8Array(gzipSync(data)) : data;
+  const sorted = tiles
+    .map((tile) => ({ ...tile, tileId: zxyToTileId(tile.z, tile.x, tile.y) }))
+    .sort((a, b) => a.tileId - b.tileId);
+  const entries: PMTilesEntry[] = [];
+  const chunks: Uint8Array[] = [];
+  let dataLength = 0;
+  for (const tile of sorted) {
+    const last = entries[entries.length - 1];
+    if (
+      last &&
+      chunks[chunks.length - 1] === tile.data &&
+      last.tileId + last.runLength === tile.tileId
+    ) {
+      last.runLength++;
+    } else {
+      entries.push({
+        tileId: tile.tileId,
+        offset: dataLength,
+        length: tile.data.length,
+        runLength: 1,
+      });
+      chunks.push(tile.data);
+      dataLength += tile.data.length;
+    }
+  }
+
+  let root = entries;
+  const leaves: Uint8Array[] = [];
+  if (leafSize) {
+    root = [];
+    let leafOffset = 0;
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = compress(writeDirectory(entries.slice(i, i + leafSize)));
+      root.push({
+        tileId: entries[i].tileId,
+        offset: leafOffset,
+        length: leaf.length,
+        runLength: 0,
+      });
+      leaves.push(leaf);
+      leafOffset += leaf.length;
+    }
+  }
+  const rootBytes = compress(writeDirectory(root));
+  const metadataBytes = compress(
+    new Uint8Array(Buffer.from(JSON.stringify(metadata))),
+  );
+  const leafLength = leaves.reduce((sum, leaf) => sum + leaf.length, 0);
+
+  const header = new DataView(new ArrayBuffer(127));
+  Buffer.from("PMTiles").forEach((byte, i) => header.setUint8(i, byte));
+  header.setUint8(7, 3);
+  const sections = [
+    rootBytes.length,
+    metadataBytes.length,
+    leafLength,
+    dataLength,
+  ];
+  let offset = 127;
+  sections.forEach((length, i) => {
+    header.setUint32(8 + i * 16, offset, true);
+    header.setUint32(16 + i * 16, length, true);
+    offset += length;
+  });
+  header.setUint8(97, gzip ? 2 : 1);
+  header.setUint8(98, 1);
+  header.setUint8(99, 2);
+  header.setUint8(100, 0);
+  header.setUint8(101, maxZoom);
+
+  const result = new Uint8Array(offset);
+  offset = 0;
+  for (const part of [
+    new Uint8Array(header.buffer),
+    rootBytes,
+    metadataBytes,
+    ...leaves,
+    ...chunks,
+  ]) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function rangeReader(archive: Uint8Array) {
+  const calls: [number, number][] = [];
+  const getRange: GetRangeFunction = async (_, offset, length) => {
+    calls.push([offset, length]);
+    return archive.slice(offset, offset + length).buffer;
+  };
+  return { calls, getRange };
+}
+
+const bytes = (text: string) => new Uint8Array(Buffer.from(text));
+
+async function text(blob: Blob): Promise<string> {
+  return Buffer.from(await new Response(blob).arrayBuffer()).toString();
+}
+
+const pyramid = () => {
+  const tiles: { z: number; x: number; y: number; data: Uint8Array }[] = [];
+  const ocean = bytes("ocean");
+  for (let z = 0; z <= 2; z++) {
+    for (let x = 0; x < 1 << z; x++) {
+      for (let y = 0; y < 1 << z; y++) {
+        tiles.push({
+          z,
+          x,
+          y,
+          data: z === 2 ? ocean : bytes(`${z}/${x}/${y}`),
+        });
+      }
+    }
+  }
+  return tiles;
+};
+
+test("tile ids follow a hilbert curve within each zoom", () => {
+  expect(zxyToTileId(0, 0, 0)).toBe(0);
+  expect(zxyToTileId(1, 0, 0)).toBe(1);
+  expect(zxyToTileId(1, 0, 1)).toBe(2);
+  expect(zxyToTileId(1, 1, 1)).toBe(3);
+  expect(zxyToTileId(1, 1, 0)).toBe(4);
+  expect(zxyToTileId(2, 0, 0)).toBe(5);
+  expect(zxyToTileId(12, 3423, 1763)).toBe(19078479);
+  expect(zxyToTileId(20, 0, 0)).toBe(366503875925);
+});
+
+test("parse directory", () => {
+  const entries: PMTilesEntry[] = [
+    { tileId: 0, offset: 0, length: 10, runLength: 1 },
+    { tileId: 1, offset: 10, length: 5, runLength: 3 },
+    { tileId: 300, offset: 2 ** 40, length: 200, runLength: 0 },
+  ];
+  expect(parseDirectory(writeDirectory(entries))).toEqual(entries);
+  expect(() => parseDirectory(writeDirectory(entries).slice(0, 5))).toThrow(
+    /Truncated/,
+  );
+});
+
+test("find entry", () => {
+  const entries: PMTilesEntry[] = [
+    { tileId: 1, offset: 0, length: 10, runLength: 1 },
+    { tileId: 5, offset: 10, length: 5, runLength: 3 },
+    { tileId: 10, offset: 15, length: 5, runLength: 0 },
+  ];
+  expect(findEntry(entries, 0)).toBeUndefined();
+  expect(findEntry(entries, 1)).toBe(entries[0]);
+  expect(findEntry(entries, 2)).toBeUndefined();
+  expect(findEntry(entries, 7)).toBe(entries[1]);
+  expect(findEntry(entries, 8)).toBeUndefined();
+  expect(findEntry(entries, 1000)).toBe(entries[2]);
+  expect(findEntry([], 1)).toBeUndefined();
+});
+
+test("parse header", () => {
+  const archive = writeArchive([], { maxZoom: 7 });
+  expect(parseHeader(archive.buffer as ArrayBuffer)).toMatchObject({
+    rootDirectoryOffset: 127,
+    internalCompression: 1,
+    tileCompression: 1,
+    tileType: 2,
+    minZoom: 0,
+    maxZoom: 7,
+  });
+  expect(() => parseHeader(new ArrayBuffer(127))).toThrow(/Not a PMTiles/);
+  archive[7] = 2;
+  expect(() => parseHeader(archive.buffer as ArrayBuffer)).toThrow(
+    /Unsupported PMTiles version: 2/,
+  );
+});
+
+for (const gzip of [false, true]) {
+  test(`read tiles from root directory gzip=${gzip}`, async () => {
+    const { calls, getRange } = rangeReader(
+      writeArchive(pyramid(), { gzip, maxZoom: 2 }),
+    );
+    const archive = new PMTilesArchive(
+      "pmtiles://https://example/dem.pmtiles",
+      (offset, length, abortController) =>
+        getRange(
+          "https://example/dem.pmtiles",
+          offset,
+          length,
+          abortController,
+        ),
+      100,
+    );
+    const ac = new AbortController();
+    expect(archive.url).toBe("https://example/dem.pmtiles");
+    expect(await text((await archive.getTile(0, 0, 0, ac)).data)).toBe("0/0/0");
+    expect((await archive.getTile(0, 0, 0, ac)).data.type).toBe("image/png");
+    expect(await text((await archive.getTile(1, 1, 0, ac)).data)).toBe("1/1/0");
+    expect(await text((await archive.getTile(2, 3, 1, ac)).data)).toBe("ocean");
+    await expect(archive.getTile(3, 0, 0, ac)).rejects.toThrow(
+      "Tile not found: 3/0/0 in https://example/dem.pmtiles",
+    );
+    // header and root directory come from the first request
+    expect(calls[0]).toEqual([0, 16384]);
+    expect(calls.filter(([offset]) => offset === 0)).toHaveLength(1);
+  });
+}
+
+test("read tiles through cached leaf directories", async () => {
+  const archiveBytes = writeArchive(pyramid(), {
+    gzip: true,
+    leafSize: 2,
+    maxZoom: 2,
+  });
+  const { calls, getRange } = rangeReader(archiveBytes);
+  const archive = new PMTilesArchive(
+    "pmtiles://https://example/dem.pmtiles",
+    (offset, length, abortController) =>
+      getRange("https://example/dem.pmtiles", offset, length, abortController),
+    100,
+  );
+  const ac = new AbortController();
+  for (const [z, x, y] of [
+    [0, 0, 0],
+    [1, 0, 1],
+    [1, 1, 0],
+  ]) {
+    expect(await text((await archive.getTile(z, x, y, ac)).data)).toBe(
+      `${z}/${x}/${y}`,
+    );
+  }
+  const callsBefore = calls.length;
+  expect(await text((await archive.getTile(1, 1, 1, ac)).data)).toBe("1/1/1");
+  // only the tile data gets read again, since 1/1/1 shares a leaf with 1/0/1
+  expect(calls.length).toBe(callsBefore + 1);
+});
+
+test("reject tile compressions other than gzip", async () => {
+  const archiveBytes = writeArchive(pyramid(), { maxZoom: 2 });
+  archiveBytes[98] = 3;
+  const { getRange } = rangeReader(archiveBytes);
+  const archive = new PMTilesArchive(
+    "pmtiles://https://example/dem.pmtiles",
+    (offset, length, abortController) =>
+      getRange("https://example/dem.pmtiles", offset, length, abortController),
+    100,
+  );
+  const ac = new AbortController();
+  await expect(archive.getTile(0, 0, 0, ac)).rejects.toThrow(
+    "Unsupported PMTiles tile compression: brotli",
+  );
+  await expect(archive.getMetadata(ac)).rejects.toThrow(
+    "Unsupported PMTiles tile compression: brotli",
+  );
+});
+
+test("read metadata once", async () => {
+  const { calls, getRange } = rangeReader(
+    writeArchive(pyramid(), {
+      gzip: true,
+      metadata: { encoding: "mapbox" },
+      maxZoom: 2,
+    }),
+  );
+  const archive = new PMTilesArchive(
+    "pmtiles://https://example/dem.pmtiles",
+    (offset, length, abortController) =>
+      getRange("https://example/dem.pmtiles", offset, length, abortController),
+    100,
+  );
+  const ac = new AbortController();
+  expect(await archive.getMetadata(ac)).toEqual({ encoding: "mapbox" });
+  const callsBefore = calls.length;
+  expect(await archive.getMetadata(ac)).toEqual({ encoding: "mapbox" });
+  expect(calls.length).toBe(callsBefore);
+});
+
+describe("LocalDemManager with pmtiles:// url", () => {
+  const decodeImage = jest.fn(
+    async (blob: Blob, encoding: Encoding): Promise<DemTile> => ({
+      width: 1,
+      height: 1,
+      data: Float32Array.of(
+        encoding === "mapbox" ? -(await text(blob)).length : 1,
+      ),
+    }),
+  );
+  const manager = (
+    options: { maxzoom?: number; encoding?: Encoding },
+    metadata?: object,
+  ) => {
+    const { calls, getRange } = rangeReader(
+      writeArchive(pyramid(), { gzip: true, metadata, maxZoom: 2 }),
+    );
+    return {
+      calls,
+      manager: new LocalDemManager({
+        demUrlPattern: "pmtiles://https://example/dem.pmtiles",
+        cacheSize: 100,
+        timeoutMs: 10_000,
+        decodeImage,
+        getRange,
+        ...options,
+      }),
+    };
+  };
+
+  test("fetch tiles through the tile cache", async () => {
+    const { manager: pmtiles } = manager({ maxzoom: 2, encoding: "mapbox" });
+    const ac = new AbortController();
+    const tile = await pmtiles.fetchTile(1, 0, 1, ac);
+    expect(await text(tile.data)).toBe("1/0/1");
+    expect(await pmtiles.fetchTile(1, 0, 1, ac)).toBe(tile);
+    expect(await text((await pmtiles.fetchTile(1, 1, 1, ac)).data)).toBe(
+      "1/1/1",
+    );
+    expect(pmtiles.tileCache.size()).toBe(2);
+    expect((await pmtiles.fetchAndParseTile(1, 1, 1, ac)).data).toEqual(
+      Float32Array.of(-5),
+    );
+  });
+
+  test("default maxzoom and encoding from the archive", async () => {
+    const { manager: pmtiles } = manager({}, { encoding: "mapbox" });
+    expect(pmtiles.maxzoom).toBe(12);
+    await pmtiles.loaded;
+    expect(pmtiles.maxzoom).toBe(2);
+    expect(pmtiles.encoding).toBe("mapbox");
+    const ac = new AbortController();
+    // overzooms tiles past the max zoom of the archive
+    const dem = await pmtiles.fetchDem(5, 0, 0, {}, ac);
+    expect(dem.get(0, 0)).toBe(-5);
+  });
+
+  test("options override the archive", async () => {
+    const { manager: pmtiles, calls } = manager(
+      { maxzoom: 1, encoding: "terrarium" },
+      { encoding: "mapbox" },
+    );
+    await pmtiles.loaded;
+    expect(calls).toHaveLength(0);
+    expect(pmtiles.maxzoom).toBe(1);
+    expect(pmtiles.encoding).toBe("terrarium");
+  });
+
+  test("fall back to defaults without metadata", async () => {
+    const { manager: pmtiles } = manager({ maxzoom: 2 });
+    await pmtiles.loaded;
+    expect(pmtiles.encoding).toBe("terrarium");
+  });
+});
@@ -0,0 +1,329 @@
+import AsyncCache from "./cache";
+import type { FetchResponse } from "./types";
+import { decompress } from "./utils";
+
+const PMTILES_PREFIX = "pmtiles://";
+
+/** Bytes to read up front, which holds the header and root directory of a PMTiles v3 archive. */
+const HEADER_BYTES = 16384;
+const HEADER_LENGTH = 127;
+/** Leaf directories can only be nested this deep under the root directory. */
+const MAX_DEPTH = 3;
+
+const COMPRESSION_UNKNOWN = 0;
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+const COMPRESSION_NAMES: { [compression: number]: string } = {
+  3: "brotli",
+  4: "zstd",
+};
+
+const MIME_TYPES: { [tileType: number]: string } = {
+  2: "image/png",
+  3: "image/jpeg",
+  4: "image/webp",
+  5: "image/avif",
+};
+
+/** Returns true for `pmtiles://https://...` urls that point to a PMTiles archive instead of a tile pattern. */
+export function isPMTilesUrl(url: string): boolean {
+  return url.startsWith(PMTILES_PREFIX);
+}
+
+/** Reads `length` bytes of the archive starting at `offset`. */
+export type ReadRange = (
+  offset: number,
+  length: number,
+  abortController: AbortController,
+) => Promise<ArrayBuffer>;
+
+export interface PMTilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  tileDataOffset: number;
+  internalCompression: number;
+  tileCompression: number;
+  tileType: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+/** A run of `runLength` consecutive tiles that share data, or a leaf directory when `runLength` is 0. */
+export interface PMTilesEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+/** Returns the position of a tile along the hilbert curves that order tiles in a PMTiles archive. */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  const n = 2 ** z;
+  // tiles at lower zooms come first
+  const acc = (n * n - 1) / 3;
+  let d = 0;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = s - 1 - x;
+        y = s - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return acc + d;
+}
+
+/** Parses the fixed-size header at the start of a PMTiles v3 archive. */
+export function parseHeader(data: ArrayBuffer): PMTilesHeader {
+  const view = new DataView(data);
+  if (
+    view.byteLength < HEADER_LENGTH ||
+    view.getUint16(0, true) !== 0x4d50 // "PM"
+  ) {
+    throw new Error("Not a PMTiles archive");
+  }
+  const version = view.getUint8(7);
+  if (version !== 3) {
+    throw new Error(`Unsupported PMTiles version: ${version}`);
+  }
+  const uint64 = (offset: number) =>
+    view.getUint32(offset + 4, true) * 2 ** 32 + view.getUint32(offset, true);
+  return {
+    rootDirectoryOffset: uint64(8),
+    rootDirectoryLength: uint64(16),
+    metadataOffset: uint64(24),
+    metadataLength: uint64(32),
+    leafDirectoryOffset: uint64(40),
+    tileDataOffset: uint64(56),
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    tileType: view.getUint8(99),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+  };
+}
+
+/** Parses an uncompressed directory, where each column of entries is stored as varints. */
+export function parseDirectory(data: Uint8Array): PMTilesEntry[] {
+  let pos = 0;
+  const varint = () => {
+    // multiply instead of shifting to support values past 32 bits
+    let result = 0;
+    let scale = 1;
+    let byte;
+    do {
+      if (pos >= data.length) throw new Error("Truncated PMTiles directory");
+      byte = data[pos++];
+      result += (byte & 0x7f) * scale;
+      scale *= 128;
+    } while (byte & 0x80);
+    return result;
+  };
+
+  const count = varint();
+  const entries: PMTilesEntry[] = [];
+  let tileId = 0;
+  for (let i = 0; i < count; i++) {
+    tileId += varint();
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const entry of entries) entry.runLength = varint();
+  for (const entry of entries) entry.length = varint();
+  entries.forEach((entry, i) => {
+    const value = varint();
+    // 0 means the data comes right after the previous entry
+    entry.offset =
+      value === 0 && i > 0
+        ? entries[i - 1].offset + entries[i - 1].length
+        : value - 1;
+  });
+  return entries;
+}
+
+/** Returns the entry that holds a tile, or the leaf directory it would be in. */
+export function findEntry(
+  entries: PMTilesEntry[],
+  tileId: number,
+): PMTilesEntry | undefined {
+  let lo = 0;
+  let hi = entries.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const diff = tileId - entries[mid].tileId;
+    if (diff > 0) {
+      lo = mid + 1;
+    } else if (diff < 0) {
+      hi = mid - 1;
+    } else {
+      return entries[mid];
+    }
+  }
+  // otherwise the closest entry before the tile either runs over it, or points to a leaf directory that covers it
+  const entry = entries[hi];
+  if (
+    entry &&
+    (entry.runLength === 0 || tileId - entry.tileId < entry.runLength)
+  ) {
+    return entry;
+  }
+  return undefined;
+}
+
+async function decompressInternal(
+  data: ArrayBuffer,
+  compression: number,
+): Promise<Uint8Array> {
+  switch (compression) {
+    case COMPRESSION_NONE:
+      return new Uint8Array(data);
+    case COMPRESSION_GZIP:
+      return decompress(new Uint8Array(data), "gzip");
+    default:
+      throw new Error(`Unsupported PMTiles compression: ${compression}`);
+  }
+}
+
+/**
+ * Reads tiles out of a PMTiles v3 archive with range requests, caching the header and directories
+ * that lead to each tile.
+ */
+export class PMTilesArchive {
+  url: string;
+  readRange: ReadRange;
+  headerCache: AsyncCache<
+    string,
+    { header: PMTilesHeader; root: PMTilesEntry[] }
+  >;
+  directoryCache: AsyncCache<string, PMTilesEntry[]>;
+  metadataCache: AsyncCache<string, any>;
+
+  constructor(url: string, readRange: ReadRange, cacheSize: number) {
+    this.url = url.replace(PMTILES_PREFIX, "");
+    this.readRange = readRange;
+    this.headerCache = new AsyncCache(1);
+    this.directoryCache = new AsyncCache(cacheSize);
+    this.metadataCache = new AsyncCache(1);
+  }
+
+  /** Returns the header, along with the root directory that gets read in the same request. */
+  getHeader(
+    abortController: AbortController,
+  ): Promise<{ header: PMTilesHeader; root: PMTilesEntry[] }> {
+    return this.headerCache.get(
+      this.url,
+      async (_, childAbortController) => {
+        const data = await this.readRange(
+          0,
+          HEADER_BYTES,
+          childAbortController,
+        );
+        const header = parseHeader(data);
+        const { tileCompression } = header;
+        if (
+          tileCompression !== COMPRESSION_UNKNOWN &&
+          tileCompression !== COMPRESSION_NONE &&
+          tileCompression !== COMPRESSION_GZIP
+        ) {
+          throw new Error(
+            `Unsupported PMTiles tile compression: ${COMPRESSION_NAMES[tileCompression] || tileCompression}`,
+          );
+        }
+        const { rootDirectoryOffset, rootDirectoryLength } = header;
+        const root =
+          rootDirectoryOffset + rootDirectoryLength <= data.byteLength
+            ? data.slice(
+                rootDirectoryOffset,
+                rootDirectoryOffset + rootDirectoryLength,
+              )
+            : await this.readRange(
+                rootDirectoryOffset,
+                rootDirectoryLength,
+                childAbortController,
+              );
+        return {
+          header,
+          root: parseDirectory(
+            await decompressInternal(root, header.internalCompression),
+          ),
+        };
+      },
+      abortController,
+    );
+  }
+
+  /** Returns the JSON metadata of the archive. */
+  getMetadata(abortController: AbortController): Promise<any> {
+    return this.metadataCache.get(
+      this.url,
+      async (_, childAbortController) => {
+        const { header } = await this.getHeader(childAbortController);
+        if (header.metadataLength === 0) return {};
+        const data = await this.readRange(
+          header.metadataOffset,
+          header.metadataLength,
+          childAbortController,
+        );
+        return JSON.parse(
+          new TextDecoder().decode(
+            await decompressInternal(data, header.internalCompression),
+          ),
+        );
+      },
+      abortController,
+    );
+  }
+
+  /** Returns the data of a tile, or throws an error if the archive does not contain it. */
+  async getTile(
+    z: number,
+    x: number,
+    y: number,
+    abortController: AbortController,
+  ): Promise<FetchResponse> {
+    const { header, root } = await this.getHeader(abortController);
+    const tileId = zxyToTileId(z, x, y);
+    let entries = root;
+    for (let depth = 0; depth <= MAX_DEPTH; depth++) {
+      const entry = findEntry(entries, tileId);
+      if (!entry) break;
+      if (entry.runLength > 0) {
+        const data = await this.readRange(
+          header.tileDataOffset + entry.offset,
+          entry.length,
+          abortController,
+        );
+        const type = MIME_TYPES[header.tileType];
+        return {
+          data: new Blob(
+            [
+              header.tileCompression === COMPRESSION_GZIP
+                ? await decompress(new Uint8Array(data), "gzip")
+                : data,
+            ],
+            type ? { type } : undefined,
+          ),
+        };
+      }
+      const offset = header.leafDirectoryOffset + entry.offset;
+      entries = await this.directoryCache.get(
+        `${offset}/${entry.length}`,
+        async (_, childAbortController) =>
+          parseDirectory(
+            await decompressInternal(
+              await this.readRange(offset, entry.length, childAbortController),
+              header.internalCompression,
+            ),
+          ),
+        abortController,
+      );
+    }
+    throw new Error(`Tile not found: ${z}/${x}/${y} in ${this.url}`);
+  }
+}
@@ -0,0 +1,86 @@
+import { PNG } from "pngjs";
+import { CompressionStream } from "stream/web";
+import { decodeParsedImage } from "./decode-image";
+import encodePng, { encodeTerrariumPng } from "./png";
+
+// jsdom leaves out the compression streams API that browsers and node have
+Object.assign(global, { CompressionStream });
+
+test("encodes grayscale images with alpha", async () => {
+  const data = Uint8Array.from([0, 255, 128, 255, 255, 0, 64, 32]);
+  const png = PNG.sync.read(Buffer.from(await encodePng(2, 2, data)));
+  expect(png.width).toBe(2);
+  expect(png.height).toBe(2);
+  expect([...png.data]).toEqual([
+    0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 0, 64, 64, 64, 32,
+  ]);
+});
+
+test("encodes images larger than one deflate block", async () => {
+  const size = 300;
+  const data = new Uint8Array(size * size * 2);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * 7) % 256;
+  }
+  const png = PNG.sync.read(Buffer.from(await encodePng(size, size, data)));
+  expect(png.width).toBe(size);
+  const grayAndAlpha = new Uint8Array(size * size * 2);
+  for (let i = 0; i < size * size; i++) {
+    grayAndAlpha[i * 2] = png.data[i * 4];
+    grayAndAlpha[i * 2 + 1] = png.data[i * 4 + 3];
+  }
+  expect(Buffer.compare(grayAndAlpha, data)).toBe(0);
+});
+
+test("encodes rgba images", async () => {
+  const data = Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8]);
+  const png = PNG.sync.read(Buffer.from(await encodePng(2, 1, data, 4)));
+  expect(png.width).toBe(2);
+  expect(png.height).toBe(1);
+  expect([...png.data]).toEqual([...data]);
+});
+
+test("encodes elevations as terrarium", async () => {
+  const elevations = Float32Array.from([0, 1000.5, -10.25, NaN]);
+  const png = PNG.sync.read(
+    Buffer.from(
+      await encodeTerrariumPng({ width: 2, height: 2, data: elevations }),
+    ),
+  );
+  const decoded = decodeParsedImage(
+    2,
+    2,
+    "terrarium",
+    Uint8ClampedArray.from(png.data),
+  );
+  expect([...decoded.data.subarray(0, 3)]).toEqual([0, 1000.5, -10.25]);
+  // pixels without data are transparent and out of the valid elevation range
+  expect(decoded.data[3]).toBe(-32768);
+  expect(png.data[15]).toBe(0);
+});
+
+test("compresses smooth images", async () => {
+  const size = 512;
+  const data = new Uint8Array(size * size * 2);
+  for (let i = 0; i < size * size; i++) {
+    data[i * 2] = (i % size) / 2;
+    data[i * 2 + 1] = 255;
+  }
+  const encoded = await encodePng(size, size, data);
+  expect(encoded.length).toBeLessThan(50_000);
+  expect(PNG.sync.read(Buffer.from(encoded)).data[4]).toBe(0);
+});
+
+test("falls back to uncompressed blocks without compression streams", async () => {
+  const { CompressionStream } = global as any;
+  delete (global as any).CompressionStream;
+  try {
+    const data = Uint8Array.from([0, 255, 128, 255, 255, 0, 64, 32]);
+    const encoded = await encodePng(2, 2, data);
+    expect([...PNG.sync.read(Buffer.from(encoded)).data]).toEqual([
+      0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 0, 64, 64, 64, 32,
+    ]);
+  } finally {
+    Object.assign(global, { CompressionStream });
+  }
+});
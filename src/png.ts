@@ -0,0 +1,136 @@
+import type { DemTile } from "./types";
+import { compress } from "./utils";
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array, start: number, end: number): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Wraps data in a zlib stream made of uncompressed deflate blocks, for environments without compression streams. */
+function zlibStored(data: Uint8Array): Uint8Array {
+  const maxBlock = 65535;
+  const blocks = Math.max(1, Math.ceil(data.length / maxBlock));
+  const result = new Uint8Array(2 + blocks * 5 + data.length + 4);
+  const view = new DataView(result.buffer);
+  let pos = 0;
+  result[pos++] = 0x78;
+  result[pos++] = 0x01;
+  for (let i = 0; i < blocks; i++) {
+    const start = i * maxBlock;
+    const length = Math.min(maxBlock, data.length - start);
+    result[pos++] = i === blocks - 1 ? 1 : 0;
+    view.setUint16(pos, length, true);
+    view.setUint16(pos + 2, ~length & 0xffff, true);
+    pos += 4;
+    result.set(data.subarray(start, start + length), pos);
+    pos += length;
+  }
+  view.setUint32(pos, adler32(data));
+  return result;
+}
+
+/**
+ * Encodes an 8-bit grayscale + alpha or RGBA image as a PNG.
+ *
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param data Gray and alpha (or red, green, blue, and alpha) values for each pixel in row-major order
+ * @param channels 2 for grayscale + alpha, 4 for RGBA
+ * @returns the bytes of the PNG file
+ */
+export default async function encodePng(
+  width: number,
+  height: number,
+  data: Uint8Array,
+  channels: 2 | 4 = 2,
+): Promise<Uint8Array> {
+  // each row starts with a filter type byte, 0 for no filtering
+  const rowLength = width * channels;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(
+      data.subarray(y * rowLength, (y + 1) * rowLength),
+      y * (rowLength + 1) + 1,
+    );
+  }
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = channels === 4 ? 6 : 4; // color type: RGBA or grayscale with alpha
+  const chunks: [string, Uint8Array][] = [
+    ["IHDR", header],
+    [
+      "IDAT",
+      typeof CompressionStream === "undefined"
+        ? zlibStored(raw)
+        : await compress(raw, "deflate"),
+    ],
+    ["IEND", new Uint8Array(0)],
+  ];
+
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  const result = new Uint8Array(
+    signature.length +
+      chunks.reduce((sum, [, chunk]) => sum + chunk.length + 12, 0),
+  );
+  const view = new DataView(result.buffer);
+  result.set(signature);
+  let pos = signature.length;
+  for (const [type, chunk] of chunks) {
+    view.setUint32(pos, chunk.length);
+    for (let i = 0; i < 4; i++) {
+      result[pos + 4 + i] = type.charCodeAt(i);
+    }
+    result.set(chunk, pos + 8);
+    view.setUint32(
+      pos + 8 + chunk.length,
+      crc32(result, pos + 4, pos + 8 + chunk.length),
+    );
+    pos += chunk.length + 12;
+  }
+  return result;
+}
+
+/**
+ * Encodes elevations as a terrarium PNG, with transparent pixels where there is no data.
+ */
+export function encodeTerrariumPng(tile: DemTile): Promise<Uint8Array> {
+  const data = new Uint8Array(tile.width * tile.height * 4);
+  for (let i = 0; i < tile.data.length; i++) {
+    const value = tile.data[i];
+    if (isNaN(value)) continue;
+    const shifted = Math.max(0, Math.min(65535, value + 32768));
+    data[i * 4] = Math.floor(shifted / 256);
+    data[i * 4 + 1] = Math.floor(shifted) % 256;
+    data[i * 4 + 2] = Math.floor((shifted % 1) * 256);
+    data[i * 4 + 3] = 255;
+  }
+  return encodePng(tile.width, tile.height, data, 4);
+}
@@ -0,0 +1,71 @@
+import { haversineDistance, sampleLine, summarizeProfile } from "./profile";
+
+// one degree of latitude along a meridian
+const degree = (6371008.8 * Math.PI) / 180;
+
+test("haversine distance", () => {
+  expect(haversineDistance([0, 0], [0, 1])).toBeCloseTo(degree);
+  expect(haversineDistance([0, 0], [1, 0])).toBeCloseTo(degree);
+  // lines of longitude converge toward the poles
+  expect(haversineDistance([0, 60], [1, 60])).toBeCloseTo(degree / 2, -2);
+  expect(haversineDistance([10, 20], [10, 20])).toBe(0);
+});
+
+test("sample line at an interval", () => {
+  const { points, distances } = sampleLine(
+    [
+      [0, 0],
+      [0, 1],
+      [0, 1],
+      [0, 2.5],
+    ],
+    degree,
+  );
+  expect(distances.map((d) => d / degree)).toEqual([0, 1, 2, 2.5]);
+  points.forEach((point, i) => {
+    expect(point[0]).toBe(0);
+    expect(point[1]).toBeCloseTo([0, 1, 2, 2.5][i]);
+  });
+});
+
+test("sample line shorter than the interval", () => {
+  expect(
+    sampleLine(
+      [
+        [0, 0],
+        [0, 1],
+      ],
+      degree * 2,
+    ),
+  ).toEqual({
+    points: [
+      [0, 0],
+      [0, 1],
+    ],
+    distances: [0, haversineDistance([0, 0], [0, 1])],
+  });
+  expect(sampleLine([[1, 2]], 10)).toEqual({
+    points: [[1, 2]],
+    distances: [0],
+  });
+  expect(sampleLine([], 10)).toEqual({ points: [], distances: [] });
+  expect(() => sampleLine([[1, 2]], 0)).toThrow();
+});
+
+test("summarize profile", () => {
+  const distances = [0, 10, 20, 30, 40, 50];
+  expect(summarizeProfile(distances, [100, 110, NaN, 105, 130, 90])).toEqual({
+    distances,
+    elevations: [100, 110, NaN, 105, 130, 90],
+    ascent: 35,
+    descent: 45,
+    min: 90,
+    max: 130,
+  });
+  expect(summarizeProfile([0, 10], [NaN, NaN])).toMatchObject({
+    ascent: 0,
+    descent: 0,
+    min: NaN,
+    max: NaN,
+  });
+});
@@ -0,0 +1,83 @@
+import type { ElevationProfile } from "./types";
+
+const EARTH_RADIUS_M = 6371008.8;
+const DEG_TO_RAD = Math.PI / 180;
+
+/** Great-circle distance in meters between two `[lng, lat]` points. */
+export function haversineDistance(a: number[], b: number[]): number {
+  const dLat = (b[1] - a[1]) * DEG_TO_RAD;
+  const dLng = (b[0] - a[0]) * DEG_TO_RAD;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a[1] * DEG_TO_RAD) *
+      Math.cos(b[1] * DEG_TO_RAD) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Returns points every `interval` meters along a line, plus the last point of the line.
+ *
+ * @param coordinates `[lng, lat]` points along the line
+ * @param interval Distance in meters between samples
+ * @returns the `[lng, lat]` of each sample and its distance from the start of the line
+ */
+export function sampleLine(
+  coordinates: number[][],
+  interval: number,
+): { points: [number, number][]; distances: number[] } {
+  if (!(interval > 0)) {
+    throw new Error("Sampling interval must be positive");
+  }
+  const points: [number, number][] = [];
+  const distances: number[] = [];
+  if (coordinates.length === 0) {
+    return { points, distances };
+  }
+  let next = 0;
+  let start = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1];
+    const b = coordinates[i];
+    const length = haversineDistance(a, b);
+    for (; next < start + length; next += interval) {
+      // segments are short enough that interpolating lng/lat linearly stays close to the great circle
+      const t = (next - start) / length;
+      points.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+      distances.push(next);
+    }
+    start += length;
+  }
+  const last = coordinates[coordinates.length - 1];
+  points.push([last[0], last[1]]);
+  distances.push(start);
+  return { points, distances };
+}
+
+/** Computes the total ascent, descent, and range of elevations sampled along a line, skipping samples without data. */
+export function summarizeProfile(
+  distances: number[],
+  elevations: number[],
+): ElevationProfile {
+  let ascent = 0;
+  let descent = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let last = NaN;
+  for (const elevation of elevations) {
+    if (isNaN(elevation)) continue;
+    if (elevation > last) ascent += elevation - last;
+    if (elevation < last) descent += last - elevation;
+    min = Math.min(min, elevation);
+    max = Math.max(max, elevation);
+    last = elevation;
+  }
+  return {
+    distances,
+    elevations,
+    ascent,
+    descent,
+    min: min > max ? NaN : min,
+    max: min > max ? NaN : max,
+  };
+}
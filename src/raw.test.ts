@@ -0,0 +1,88 @@
+import { DecompressionStream } from "stream/web";
+import { gzipSync } from "zlib";
+import decodeImage from "./decode-image";
+import decodeRaw, { isRawEncoding } from "./raw";
+
+// jsdom leaves out the compression streams API that browsers and node have
+Object.assign(global, { DecompressionStream });
+
+const int16 = (values: number[]) =>
+  new Uint8Array(Int16Array.from(values).buffer);
+const float32 = (values: number[]) =>
+  new Uint8Array(Float32Array.from(values).buffer);
+
+test("decode int16 with scale, offset, and no data", () => {
+  expect(
+    decodeRaw(int16([0, 10, -32768, -5]), {
+      format: "int16",
+      tileSize: 2,
+      scale: 0.5,
+      offset: 100,
+      noData: -32768,
+    }),
+  ).toEqual({
+    width: 2,
+    height: 2,
+    data: Float32Array.from([100, 105, NaN, 97.5]),
+  });
+});
+
+test("decode float32 with a no data value that isn't exact in float32", () => {
+  expect(
+    decodeRaw(float32([1.5, -9999.9, 2000, NaN]), {
+      format: "float32",
+      tileSize: 2,
+      noData: -9999.9,
+    }),
+  ).toEqual({
+    width: 2,
+    height: 2,
+    data: Float32Array.from([1.5, NaN, 2000, NaN]),
+  });
+});
+
+test("decode values from part of a buffer", () => {
+  const bytes = int16([1, 2, 3, 4, 5, 6]).subarray(2, 10);
+  expect(decodeRaw(bytes, { format: "int16", tileSize: 2 }).data).toEqual(
+    Float32Array.from([2, 3, 4, 5]),
+  );
+});
+
+test("reject tiles of the wrong size", () => {
+  expect(() =>
+    decodeRaw(float32([1, 2, 3]), { format: "float32", tileSize: 2 }),
+  ).toThrow("Expected 16 bytes for a 2x2 float32 tile, got 12");
+});
+
+test("is raw encoding", () => {
+  expect(isRawEncoding({ format: "int16", tileSize: 256 })).toBe(true);
+  expect(
+    isRawEncoding({
+      redFactor: 256,
+      greenFactor: 1,
+      blueFactor: 1 / 256,
+      baseShift: 32768,
+    }),
+  ).toBe(false);
+  expect(isRawEncoding("terrarium")).toBe(false);
+  expect(isRawEncoding("lerc")).toBe(false);
+});
+
+test("decode gzipped raw encoding without a canvas", async () => {
+  const bytes = gzipSync(int16([1, 2, 3, 4]));
+  const blob = {
+    arrayBuffer: async () =>
+      bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length),
+  } as Blob;
+  expect(
+    await decodeImage(
+      blob,
+      { format: "int16", tileSize: 2, offset: -1, gzip: true },
+      new AbortController(),
+    ),
+  ).toEqual({
+    width: 2,
+    height: 2,
+    data: Float32Array.from([0, 1, 2, 3]),
+  });
+});
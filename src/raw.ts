@@ -0,0 +1,41 @@
+import type { DemTile, Encoding, RawEncoding } from "./types";
+
+const BYTES_PER_VALUE = { int16: 2, float32: 4 };
+
+/** Returns true for encodings of raw elevation values, as opposed to custom rgb factors. */
+export function isRawEncoding(encoding: Encoding): encoding is RawEncoding {
+  return typeof encoding === "object" && "format" in encoding;
+}
+
+/**
+ * Decodes a tile of raw little-endian elevation values into a DEM tile, with `NaN` for pixels that
+ * have the no data value.
+ */
+export default function decodeRaw(
+  bytes: Uint8Array,
+  { format, tileSize, scale = 1, offset = 0, noData }: RawEncoding,
+): DemTile {
+  const size = tileSize * tileSize;
+  const expected = size * BYTES_PER_VALUE[format];
+  if (bytes.byteLength !== expected) {
+    throw new Error(
+      `Expected ${expected} bytes for a ${tileSize}x${tileSize} ${format} tile, got ${bytes.byteLength}`,
+    );
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data = new Float32Array(size);
+  if (format === "int16") {
+    for (let i = 0; i < size; i++) {
+      const value = view.getInt16(i * 2, true);
+      data[i] = value === noData ? NaN : value * scale + offset;
+    }
+  } else {
+    // match no data values that can't be represented exactly as float32
+    const noDataValue = noData === undefined ? undefined : Math.fround(noData);
+    for (let i = 0; i < size; i++) {
+      const value = view.getFloat32(i * 4, true);
+      data[i] = value === noDataValue ? NaN : value * scale + offset;
+    }
+  }
+  return { width: tileSize, height: tileSize, data };
+}
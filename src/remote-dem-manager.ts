@@ -8,9 +8,19 @@ import type {
   DemManager,
   DemManagerInitizlizationParameters,
   DemTile,
+  ElevationProfile,
+  ElevationProfileOptions,
+  ElevationStatistics,
+  ElevationStatisticsOptions,
   Encoding,
   FetchResponse,
+  HillshadeOptions,
+  HillshadeTile,
   IndividualContourTileOptions,
+  LineString,
+  Polygon,
+  Viewshed,
+  ViewshedOptions,
 } from "./types";
 import { prepareDemTile } from "./utils";
 
@@ -41,11 +51,13 @@ export default class RemoteDemManager implements DemManager {
   managerId: number;
   actor: Actor<WorkerDispatch>;
   loaded: Promise<any>;
+  maxzoom: number;
 
   constructor(options: DemManagerInitizlizationParameters) {
     const managerId = (this.managerId = ++id);
     this.actor = options.actor || defaultActor();
-    this.loaded = this.actor.send(
+    this.maxzoom = options.maxzoom ?? 12;
+    const init: Promise<number> = this.actor.send(
       "init",
       [],
       new AbortController(),
@@ -55,6 +67,10 @@ export default class RemoteDemManager implements DemManager {
         managerId,
       },
     );
+    // the worker can read the max zoom from the source
+    this.loaded = init.then((maxzoom) => {
+      this.maxzoom = maxzoom;
+    });
   }
 
   fetchTile = (
@@ -110,4 +126,85 @@ export default class RemoteDemManager implements DemManager {
       y,
       options,
     );
+  fetchHillshadeTile = (
+    z: number,
+    x: number,
+    y: number,
+    options: HillshadeOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<HillshadeTile> =>
+    this.actor.send(
+      "fetchHillshadeTile",
+      [],
+      abortController,
+      timer,
+      this.managerId,
+      z,
+      x,
+      y,
+      options,
+    );
+  fetchElevations = (
+    points: [number, number][],
+    zoom: number | undefined,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<number[]> =>
+    this.actor.send(
+      "fetchElevations",
+      [],
+      abortController,
+      timer,
+      this.managerId,
+      points,
+      zoom,
+    );
+  fetchElevationProfile = (
+    line: LineString,
+    options: ElevationProfileOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationProfile> =>
+    this.actor.send(
+      "fetchElevationProfile",
+      [],
+      abortController,
+      timer,
+      this.managerId,
+      line,
+      options,
+    );
+  fetchElevationStatistics = (
+    area: [number, number, number, number] | Polygon,
+    options: ElevationStatisticsOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationStatistics> =>
+    this.actor.send(
+      "fetchElevationStatistics",
+      [],
+      abortController,
+      timer,
+      this.managerId,
+      area,
+      options,
+    );
+  fetchViewshed = (
+    lng: number,
+    lat: number,
+    options: ViewshedOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<Viewshed> =>
+    this.actor.send(
+      "fetchViewshed",
+      [],
+      abortController,
+      timer,
+      this.managerId,
+      lng,
+      lat,
+      options,
+    );
 }
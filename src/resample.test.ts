@@ -0,0 +1,77 @@
+import { HeightTile } from "./height-tile";
+import resampleToTile, {
+  gridPixelRange,
+  projectTilePosition,
+} from "./resample";
+import type { GridTransform } from "./resample";
+
+const HALF_WORLD_M = 20037508.342789244;
+
+test("project tile positions", () => {
+  expect(projectTilePosition(0, 0, 0, "EPSG:3857")).toEqual([
+    -HALF_WORLD_M,
+    HALF_WORLD_M,
+  ]);
+  expect(projectTilePosition(1, 1, 1, "EPSG:3857")).toEqual([0, 0]);
+  const [lng, lat] = projectTilePosition(0.5, 0.5, 0, "EPSG:4326");
+  expect(lng).toBe(0);
+  expect(lat).toBeCloseTo(0);
+  expect(projectTilePosition(0, 0, 0, "EPSG:4326")[1]).toBeCloseTo(
+    85.0511287798,
+  );
+});
+
+// 8x8 pixels covering the whole web mercator world
+const world: GridTransform = {
+  projection: "EPSG:3857",
+  originX: -HALF_WORLD_M,
+  originY: HALF_WORLD_M,
+  resX: HALF_WORLD_M / 4,
+  resY: HALF_WORLD_M / 4,
+};
+
+test("grid pixel range", () => {
+  // the pixels on either side of the centers of the first and last pixels in the tile
+  expect(gridPixelRange(world, 1, 1, 1, 2)).toEqual([4, 4, 7, 7]);
+  expect(gridPixelRange(world, 0, 0, 0, 3)).toEqual([0, 0, 7, 7]);
+  expect(gridPixelRange(world, 2, 0, 3, 1)).toEqual([0, 6, 1, 7]);
+});
+
+test("resample aligned grid", () => {
+  const grid = new HeightTile(8, 8, (x, y) =>
+    x < 0 || y < 0 || x >= 8 || y >= 8 ? NaN : y * 8 + x,
+  );
+  const tile = resampleToTile(grid, world, 1, 1, 0, 4);
+  expect(tile.width).toBe(4);
+  expect(tile.height).toBe(4);
+  expect([...tile.data]).toEqual([
+    4, 5, 6, 7, 12, 13, 14, 15, 20, 21, 22, 23, 28, 29, 30, 31,
+  ]);
+  // interpolates between pixels for lower resolution tiles
+  expect([...resampleToTile(grid, world, 1, 0, 0, 2).data]).toEqual([
+    4.5, 6.5, 20.5, 22.5,
+  ]);
+});
+
+test("resample longitude/latitude grid", () => {
+  // 1 degree pixels where the value is the latitude at the center of each pixel
+  const transform: GridTransform = {
+    projection: "EPSG:4326",
+    originX: -180,
+    originY: 90,
+    resX: 1,
+    resY: 1,
+  };
+  const grid = new HeightTile(360, 180, (_, y) => 89.5 - y);
+  const tile = resampleToTile(grid, transform, 2, 1, 1, 16);
+  for (let row = 0; row < 16; row++) {
+    const [lng, lat] = projectTilePosition(
+      1.5 / 16,
+      1 + (row + 0.5) / 16,
+      2,
+      "EPSG:4326",
+    );
+    expect(lng).toBeCloseTo(-180 + 90 * (1.5 / 16));
+    expect(tile.data[row * 16 + 1]).toBeCloseTo(lat, 4);
+  }
+});
@@ -0,0 +1,105 @@
+import type { HeightTile } from "./height-tile";
+import type { DemTile } from "./types";
+import { tileToLngLat } from "./utils";
+
+/** Half of the circumference of the earth in web mercator meters. */
+const HALF_WORLD_M = 20037508.342789244;
+
+/** Coordinate systems that source grids can use: web mercator meters, or longitude and latitude degrees. */
+export type Projection = "EPSG:3857" | "EPSG:4326";
+
+/** Where a grid of pixels lies on the earth. */
+export interface GridTransform {
+  projection: Projection;
+  /** Coordinates of the top-left corner of the top-left pixel */
+  originX: number;
+  originY: number;
+  /** Width of each pixel in projection units */
+  resX: number;
+  /** Height of each pixel in projection units, where y coordinates decrease going down */
+  resY: number;
+}
+
+/** Returns the coordinates of a fractional web mercator tile position at zoom `z` in a projection. */
+export function projectTilePosition(
+  x: number,
+  y: number,
+  z: number,
+  projection: Projection,
+): [number, number] {
+  if (projection === "EPSG:4326") {
+    return tileToLngLat(x, y, z);
+  }
+  const size = 1 << z;
+  return [
+    ((2 * x) / size - 1) * HALF_WORLD_M,
+    (1 - (2 * y) / size) * HALF_WORLD_M,
+  ];
+}
+
+/**
+ * Returns the `[minCol, minRow, maxCol, maxRow]` range of grid pixels, inclusive, that `resampleToTile` reads
+ * from to fill in a tile.
+ */
+export function gridPixelRange(
+  transform: GridTransform,
+  z: number,
+  x: number,
+  y: number,
+  size: number,
+): [number, number, number, number] {
+  const { projection, originX, originY, resX, resY } = transform;
+  // both projections preserve north/south and east/west, so the corner pixels bound the whole tile
+  const [west, north] = projectTilePosition(
+    x + 0.5 / size,
+    y + 0.5 / size,
+    z,
+    projection,
+  );
+  const [east, south] = projectTilePosition(
+    x + 1 - 0.5 / size,
+    y + 1 - 0.5 / size,
+    z,
+    projection,
+  );
+  return [
+    Math.floor((west - originX) / resX - 0.5),
+    Math.floor((originY - north) / resY - 0.5),
+    Math.floor((east - originX) / resX - 0.5) + 1,
+    Math.floor((originY - south) / resY - 0.5) + 1,
+  ];
+}
+
+/**
+ * Resamples a grid of elevations into a web mercator tile, using bilinear interpolation between the 4 grid
+ * pixels closest to the center of each tile pixel.
+ *
+ * @param grid Elevations where `0, 0` is the top-left pixel of `transform`, and `NaN` where there is no data
+ * @param size Width and height of the output tile in pixels
+ */
+export default function resampleToTile(
+  grid: HeightTile,
+  transform: GridTransform,
+  z: number,
+  x: number,
+  y: number,
+  size: number,
+): DemTile {
+  const { projection, originX, originY, resX, resY } = transform;
+  const data = new Float32Array(size * size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const [px, py] = projectTilePosition(
+        x + (col + 0.5) / size,
+        y + (row + 0.5) / size,
+        z,
+        projection,
+      );
+      data[row * size + col] = grid.interpolate(
+        (px - originX) / resX,
+        (originY - py) / resY,
+      );
+    }
+  }
+  return { width: size, height: size, data };
+}
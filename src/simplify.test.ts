@@ -0,0 +1,49 @@
+import simplifyLine from "./simplify";
+
+const zigzag = [0, 0, 10, 1, 20, 0, 30, 1, 40, 0];
+
+test("no tolerance keeps every vertex", () => {
+  expect(simplifyLine(zigzag, 0, 4096)).toEqual(zigzag);
+});
+
+test("douglas-peucker removes vertices within tolerance", () => {
+  expect(simplifyLine(zigzag, 2, 4096)).toEqual([0, 0, 40, 0]);
+  expect(simplifyLine(zigzag, 0.5, 4096)).toEqual(zigzag);
+});
+
+test("visvalingam removes vertices within tolerance", () => {
+  expect(simplifyLine(zigzag, 7, 4096, "visvalingam")).toEqual([0, 0, 40, 0]);
+  expect(simplifyLine(zigzag, 1, 4096, "visvalingam")).toEqual(zigzag);
+});
+
+test("keeps significant vertices", () => {
+  const line = [0, 0, 10, 1, 20, 10, 30, 1, 40, 0];
+  expect(simplifyLine(line, 2, 4096)).toEqual([
+    0, 0, 10, 1, 20, 10, 30, 1, 40, 0,
+  ]);
+  expect(simplifyLine(line, 5, 4096)).toEqual([0, 0, 20, 10, 40, 0]);
+  expect(simplifyLine(line, 5, 4096, "visvalingam")).toEqual(line);
+});
+
+test("keeps vertices on either side of tile edges", () => {
+  const line = [-20, 0, -10, 1, -1, 0, 1, 1, 10, 0, 20, 1, 30, 0];
+  expect(simplifyLine(line, 2, 20)).toEqual([
+    -20, 0, -1, 0, 1, 1, 20, 1, 30, 0,
+  ]);
+  expect(simplifyLine(line, 5, 20, "visvalingam")).toEqual([
+    -20, 0, -1, 0, 1, 1, 20, 1, 30, 0,
+  ]);
+});
+
+test("simplifies rings", () => {
+  const ring = [0, 0, 5, 1, 10, 0, 10, 10, 5, 9, 0, 10, 0, 0];
+  expect(simplifyLine(ring, 2, 4096)).toEqual([
+    0, 0, 10, 0, 10, 10, 0, 10, 0, 0,
+  ]);
+});
+
+test("drops rings that collapse", () => {
+  const ring = [0, 0, 1, 0, 1, 1, 0, 1, 0, 0];
+  expect(simplifyLine(ring, 2, 4096)).toBeUndefined();
+  expect(simplifyLine(ring, 2, 4096, "visvalingam")).toBeUndefined();
+});
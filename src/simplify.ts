@@ -0,0 +1,165 @@
+import type { SimplifyAlgorithm } from "./types";
+
+function sqSegmentDistance(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+): number {
+  let dx = bx - ax;
+  let dy = by - ay;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - ax) * dx + (py - ay) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      ax = bx;
+      ay = by;
+    } else if (t > 0) {
+      ax += dx * t;
+      ay += dy * t;
+    }
+  }
+  dx = px - ax;
+  dy = py - ay;
+  return dx * dx + dy * dy;
+}
+
+function triangleArea(line: number[], a: number, b: number, c: number) {
+  return (
+    Math.abs(
+      (line[a * 2] - line[c * 2]) * (line[b * 2 + 1] - line[a * 2 + 1]) -
+        (line[a * 2] - line[b * 2]) * (line[c * 2 + 1] - line[a * 2 + 1]),
+    ) / 2
+  );
+}
+
+/** Marks the vertices to keep between `first` and `last` using the Ramer-Douglas-Peucker algorithm. */
+function douglasPeucker(
+  line: number[],
+  first: number,
+  last: number,
+  sqTolerance: number,
+  keep: boolean[],
+) {
+  let maxSqDist = sqTolerance;
+  let index = -1;
+  for (let i = first + 1; i < last; i++) {
+    const sqDist = sqSegmentDistance(
+      line[i * 2],
+      line[i * 2 + 1],
+      line[first * 2],
+      line[first * 2 + 1],
+      line[last * 2],
+      line[last * 2 + 1],
+    );
+    if (sqDist > maxSqDist) {
+      index = i;
+      maxSqDist = sqDist;
+    }
+  }
+  if (index >= 0) {
+    keep[index] = true;
+    douglasPeucker(line, first, index, sqTolerance, keep);
+    douglasPeucker(line, index, last, sqTolerance, keep);
+  }
+}
+
+/**
+ * Marks the vertices to keep between `first` and `last` using the Visvalingam-Whyatt algorithm,
+ * which repeatedly removes the vertex that forms the smallest triangle with its neighbors.
+ */
+function visvalingam(
+  line: number[],
+  first: number,
+  last: number,
+  minArea: number,
+  keep: boolean[],
+) {
+  const prev: number[] = [];
+  const next: number[] = [];
+  for (let i = first; i <= last; i++) {
+    prev[i] = i - 1;
+    next[i] = i + 1;
+    keep[i] = true;
+  }
+  const area = (i: number) => triangleArea(line, prev[i], i, next[i]);
+  const areas: number[] = [];
+  for (let i = first + 1; i < last; i++) {
+    areas[i] = area(i);
+  }
+  // contour fragments are short, so a linear scan for the smallest triangle is fast enough
+  for (;;) {
+    let min = minArea;
+    let index = -1;
+    for (let i = next[first]; i < last; i = next[i]) {
+      if (areas[i] < min) {
+        min = areas[i];
+        index = i;
+      }
+    }
+    if (index < 0) break;
+    keep[index] = false;
+    const before = prev[index];
+    const after = next[index];
+    next[before] = after;
+    prev[after] = before;
+    // the area of a neighbor can't drop below the removed one, otherwise it would be removed out of order
+    if (before > first) areas[before] = Math.max(min, area(before));
+    if (after < last) areas[after] = Math.max(min, area(after));
+  }
+}
+
+function crossesEdge(a: number, b: number, extent: number): boolean {
+  return a < 0 !== b < 0 || a > extent !== b > extent;
+}
+
+/**
+ * Simplifies a `[x1, y1, x2, y2, ...]` line in tile coordinates.
+ *
+ * The endpoints and the vertices on either side of each tile edge crossing are always kept so that
+ * simplified lines from neighboring tiles still join up.
+ *
+ * @param line The line to simplify, where the first and last points are equal for rings
+ * @param tolerance Maximum distance in tile units between the original and simplified line
+ * @param extent Vector tile extent
+ * @param algorithm Simplification algorithm to use
+ * @returns the simplified line, or `undefined` if a ring collapsed
+ */
+export default function simplifyLine(
+  line: number[],
+  tolerance: number,
+  extent: number,
+  algorithm: SimplifyAlgorithm = "douglas-peucker",
+): number[] | undefined {
+  const length = line.length / 2;
+  if (tolerance <= 0 || length <= 2) {
+    return line;
+  }
+  const keep: boolean[] = new Array(length).fill(false);
+  const crosses = (i: number) =>
+    crossesEdge(line[i * 2], line[i * 2 + 2], extent) ||
+    crossesEdge(line[i * 2 + 1], line[i * 2 + 3], extent);
+  let first = 0;
+  for (let i = 1; i < length; i++) {
+    if (i === length - 1 || crosses(i - 1) || crosses(i)) {
+      keep[first] = keep[i] = true;
+      if (algorithm === "visvalingam") {
+        // a triangle area that corresponds roughly to a vertex displaced by `tolerance`
+        visvalingam(line, first, i, (tolerance * tolerance) / 2, keep);
+      } else {
+        douglasPeucker(line, first, i, tolerance * tolerance, keep);
+      }
+      first = i;
+    }
+  }
+  const result: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (keep[i]) {
+      result.push(line[i * 2], line[i * 2 + 1]);
+    }
+  }
+  const closed =
+    line[0] === line[line.length - 2] && line[1] === line[line.length - 1];
+  return closed && result.length < 8 ? undefined : result;
+}
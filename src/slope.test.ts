@@ -0,0 +1,48 @@
+import { HeightTile } from "./height-tile";
+import slopeDegrees, { gradient, pixelSizeMeters } from "./slope";
+
+// at z12 near the equator each pixel of a 4 pixel tile is about 2.4km
+const pixelSize = pixelSizeMeters(12, 2048, 4);
+const ramp = (rise: number) =>
+  new HeightTile(5, 5, (x) => x * rise * pixelSize);
+
+test("pixel size", () => {
+  expect(pixelSize).toBeCloseTo(40075016.68557849 / (4096 * 4));
+  // tile rows near 60 degrees north have pixels half as wide
+  const lat60 = (1 - Math.log(Math.sqrt(3) + 2) / Math.PI) / 2;
+  expect(pixelSizeMeters(0, lat60, 4)).toBeCloseTo(
+    pixelSizeMeters(0, 0.5, 4) / 2,
+  );
+});
+
+test("gradient", () => {
+  const tile = new HeightTile(3, 3, (x, y) => x * 2 + y);
+  expect(gradient(tile, 1, 1)).toEqual([2, 1]);
+  // missing neighbors take the center value
+  const corner = new HeightTile(3, 3, (x, y) =>
+    x < 0 || y < 0 ? NaN : x * 2 + y,
+  );
+  expect(gradient(corner, 0, 0)).toEqual([7 / 8, 5 / 8]);
+  expect(gradient(new HeightTile(1, 1, () => NaN), 0, 0)).toBeUndefined();
+});
+
+test("slope of a ramp", () => {
+  expect(slopeDegrees(ramp(1), 12, 2048).get(2, 2)).toBeCloseTo(45, 1);
+  expect(slopeDegrees(ramp(Math.sqrt(3)), 12, 2048).get(2, 2)).toBeCloseTo(
+    60,
+    1,
+  );
+  expect(slopeDegrees(ramp(0), 12, 2048).get(2, 2)).toBe(0);
+});
+
+test("slope with elevation in other units", () => {
+  expect(
+    slopeDegrees(ramp(1 / 0.3048), 12, 2048, 0.3048).get(2, 2),
+  ).toBeCloseTo(45, 1);
+});
+
+test("slope of missing data", () => {
+  const tile = new HeightTile(3, 3, (x, y) => (x === 1 && y === 1 ? NaN : 0));
+  expect(slopeDegrees(tile, 12, 2048).get(1, 1)).toBeNaN();
+  expect(slopeDegrees(tile, 12, 2048).get(0, 0)).toBe(0);
+});
@@ -0,0 +1,70 @@
+import { HeightTile } from "./height-tile";
+
+const EARTH_CIRCUMFERENCE_M = 40075016.68557849;
+
+/**
+ * Returns the ground distance in meters covered by one pixel, for a tile with `size` pixels across at zoom `z`.
+ *
+ * @param y Fractional tile y coordinate of the pixel, since pixels get smaller further from the equator
+ */
+export function pixelSizeMeters(z: number, y: number, size: number): number {
+  const lat = Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / (1 << z))));
+  return (EARTH_CIRCUMFERENCE_M * Math.cos(lat)) / ((1 << z) * size);
+}
+
+/**
+ * Estimates the change in elevation per pixel to the east and south of a pixel from the 3x3 pixels around it
+ * using Horn's method, or `undefined` if the pixel has no data. Missing neighbors are filled in with the center value.
+ */
+export function gradient(
+  tile: HeightTile,
+  x: number,
+  y: number,
+): [number, number] | undefined {
+  const e = tile.get(x, y);
+  if (isNaN(e)) {
+    return undefined;
+  }
+  const get = (dx: number, dy: number) => {
+    const value = tile.get(x + dx, y + dy);
+    return isNaN(value) ? e : value;
+  };
+  const a = get(-1, -1);
+  const b = get(0, -1);
+  const c = get(1, -1);
+  const d = get(-1, 0);
+  const f = get(1, 0);
+  const g = get(-1, 1);
+  const h = get(0, 1);
+  const i = get(1, 1);
+  return [
+    (c + 2 * f + i - (a + 2 * d + g)) / 8,
+    (g + 2 * h + i - (a + 2 * b + c)) / 8,
+  ];
+}
+
+/**
+ * Returns a tile where values are the slope angle in degrees at each grid point of a height tile.
+ *
+ * @param tile The input height tile with values at the top-left of each pixel, like `averagePixelCentersToGrid` returns
+ * @param z Zoom level of the tile
+ * @param y Y coordinate of the tile, used to get the size of each pixel in meters
+ * @param metersPerUnit Meters per unit of elevation in the tile, ie. 0.3048 for feet
+ */
+export default function slopeDegrees(
+  tile: HeightTile,
+  z: number,
+  y: number,
+  metersPerUnit: number = 1,
+): HeightTile {
+  const cells = tile.width - 1;
+  return new HeightTile(tile.width, tile.height, (col, row) => {
+    const grad = gradient(tile, col, row);
+    if (!grad) {
+      return NaN;
+    }
+    const pixelSize = pixelSizeMeters(z, y + row / cells, cells);
+    const rise = (metersPerUnit * Math.hypot(grad[0], grad[1])) / pixelSize;
+    return (Math.atan(rise) * 180) / Math.PI;
+  });
+}
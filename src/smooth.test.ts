@@ -0,0 +1,85 @@
+import { HeightTile } from "./height-tile";
+import generateIsolines from "./isolines";
+import smoothIsolines from "./smooth";
+
+function segmentsCross(
+  a: number[],
+  i: number,
+  b: number[],
+  j: number,
+): boolean {
+  const [ax, ay, bx, by] = a.slice(i, i + 4);
+  const [cx, cy, dx, dy] = b.slice(j, j + 4);
+  const d1 = (dx - cx) * (ay - cy) - (dy - cy) * (ax - cx);
+  const d2 = (dx - cx) * (by - cy) - (dy - cy) * (bx - cx);
+  const d3 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  const d4 = (bx - ax) * (dy - ay) - (by - ay) * (dx - ax);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function countCrossings(isolines: { [ele: number]: number[][] }): number {
+  const lines = Object.values(isolines).flat();
+  let count = 0;
+  for (let a = 0; a < lines.length; a++) {
+    for (let b = a; b < lines.length; b++) {
+      for (let i = 0; i < lines[a].length - 2; i += 2) {
+        for (let j = a === b ? i + 4 : 0; j < lines[b].length - 2; j += 2) {
+          if (segmentsCross(lines[a], i, lines[b], j)) count++;
+        }
+      }
+    }
+  }
+  return count;
+}
+
+test("open line endpoints stay fixed", () => {
+  const line = [0, 0, 100, 0, 100, 100, 200, 100];
+  const [smoothed] = smoothIsolines({ 10: [line] }, 2, 64)[10];
+  expect(smoothed.slice(0, 2)).toEqual([0, 0]);
+  expect(smoothed.slice(-2)).toEqual([200, 100]);
+  expect(smoothed.length).toBeGreaterThan(line.length);
+});
+
+test("rings stay closed", () => {
+  const ring = [0, 0, 100, 0, 100, 100, 0, 100, 0, 0];
+  const [smoothed] = smoothIsolines({ 10: [ring] }, 1, 64)[10];
+  expect(smoothed).toEqual([
+    0, 25, 25, 0, 75, 0, 100, 25, 100, 75, 75, 100, 25, 100, 0, 75, 0, 25,
+  ]);
+});
+
+test("zero iterations returns input", () => {
+  const isolines = { 10: [[0, 0, 100, 0, 100, 100]] };
+  expect(smoothIsolines(isolines, 0, 64)).toBe(isolines);
+});
+
+test("corner is kept when another line is inside the cut", () => {
+  const result = smoothIsolines(
+    {
+      10: [[0, 0, 100, 0, 100, 100]],
+      20: [[96, 2, 200, 2]],
+    },
+    1,
+    64,
+  );
+  expect(result[10]).toEqual([[0, 0, 100, 0, 100, 100]]);
+  expect(result[20]).toEqual([[96, 2, 200, 2]]);
+});
+
+test("smoothed neighboring contours never cross", () => {
+  // rough random terrain produces contours that nearly touch, where naive corner cutting crosses lines
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  for (let trial = 0; trial < 200; trial++) {
+    const size = 4;
+    const data = new Float32Array(size * size);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.round(random() * 20);
+    }
+    const tile = HeightTile.fromRawDem({ width: size, height: size, data });
+    const isolines = generateIsolines(3, tile, 4096, 0);
+    const smoothed = smoothIsolines(isolines, 3, 4096 / (size - 1));
+    expect(Object.keys(smoothed)).toEqual(Object.keys(isolines));
+    expect(countCrossings(smoothed)).toBe(0);
+  }
+});
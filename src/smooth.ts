@@ -0,0 +1,179 @@
+import { isClosed } from "./clip";
+
+/** Spatial index of every vertex in a set of lines, bucketed into square cells. */
+class VertexIndex {
+  cellSize: number;
+  cells: Map<string, number[]> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  key(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+
+  add(x: number, y: number) {
+    const key = this.key(
+      Math.floor(x / this.cellSize),
+      Math.floor(y / this.cellSize),
+    );
+    let cell = this.cells.get(key);
+    if (!cell) this.cells.set(key, (cell = []));
+    cell.push(x, y);
+  }
+
+  /** Returns true if any vertex other than `(exceptX, exceptY)` is inside or on the edge of triangle `abc`. */
+  anyInTriangle(
+    ax: number,
+    ay: number,
+    bx: number,
+    by: number,
+    cx: number,
+    cy: number,
+    exceptX: number,
+    exceptY: number,
+  ): boolean {
+    const minX = Math.floor(Math.min(ax, bx, cx) / this.cellSize);
+    const maxX = Math.floor(Math.max(ax, bx, cx) / this.cellSize);
+    const minY = Math.floor(Math.min(ay, by, cy) / this.cellSize);
+    const maxY = Math.floor(Math.max(ay, by, cy) / this.cellSize);
+    let skipped = false;
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const cell = this.cells.get(this.key(x, y));
+        if (!cell) continue;
+        for (let i = 0; i < cell.length; i += 2) {
+          const px = cell[i];
+          const py = cell[i + 1];
+          if (!skipped && px === exceptX && py === exceptY) {
+            // the corner being cut, but another line touching it still counts
+            skipped = true;
+          } else if (inTriangle(px, py, ax, ay, bx, by, cx, cy)) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+}
+
+function cross(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  px: number,
+  py: number,
+) {
+  return (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+}
+
+function inTriangle(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  cx: number,
+  cy: number,
+): boolean {
+  const d1 = cross(ax, ay, bx, by, px, py);
+  const d2 = cross(bx, by, cx, cy, px, py);
+  const d3 = cross(cx, cy, ax, ay, px, py);
+  const hasNeg = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPos = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNeg && hasPos);
+}
+
+function removeDuplicatePoints(line: number[]): number[] {
+  const result: number[] = [line[0], line[1]];
+  for (let i = 2; i < line.length; i += 2) {
+    if (
+      line[i] !== result[result.length - 2] ||
+      line[i + 1] !== result[result.length - 1]
+    ) {
+      result.push(line[i], line[i + 1]);
+    }
+  }
+  return result;
+}
+
+function smoothLine(line: number[], index: VertexIndex): number[] {
+  const closed = isClosed(line);
+  // rings don't need the repeated closing point while cutting corners
+  const length = (closed ? line.length - 2 : line.length) / 2;
+  const result: number[] = [];
+  for (let i = 0; i < length; i++) {
+    const px = line[i * 2];
+    const py = line[i * 2 + 1];
+    if (!closed && (i === 0 || i === length - 1)) {
+      result.push(px, py);
+      continue;
+    }
+    const prev = (i - 1 + length) % length;
+    const next = (i + 1) % length;
+    const rx = 0.75 * px + 0.25 * line[prev * 2];
+    const ry = 0.75 * py + 0.25 * line[prev * 2 + 1];
+    const qx = 0.75 * px + 0.25 * line[next * 2];
+    const qy = 0.75 * py + 0.25 * line[next * 2 + 1];
+    // the new points lie on the original segments, so the only way the cut can cross another
+    // line is if one of its vertices is inside the corner being cut off
+    if (index.anyInTriangle(rx, ry, px, py, qx, qy, px, py)) {
+      result.push(px, py);
+    } else {
+      result.push(rx, ry, qx, qy);
+    }
+  }
+  if (closed) {
+    result.push(result[0], result[1]);
+  }
+  return result;
+}
+
+/**
+ * Smooths contour lines using Chaikin's corner-cutting algorithm.
+ *
+ * Endpoints of open lines stay fixed, and corners are only cut when doing so can't make the line
+ * cross itself or any other line.
+ *
+ * @param isolines Contour lines keyed by elevation, as returned by `generateIsolines`
+ * @param iterations Number of times to cut each corner
+ * @param cellSize Size of the spatial index buckets, around the distance between input vertices
+ * @returns smoothed contour lines keyed by elevation, with coordinates rounded to integers
+ */
+export default function smoothIsolines(
+  isolines: { [ele: number]: number[][] },
+  iterations: number,
+  cellSize: number,
+): { [ele: number]: number[][] } {
+  if (iterations <= 0) {
+    return isolines;
+  }
+  let lines: [string, number[]][] = [];
+  for (const ele in isolines) {
+    for (const line of isolines[ele]) {
+      lines.push([ele, removeDuplicatePoints(line)]);
+    }
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const index = new VertexIndex(cellSize);
+    for (const [, line] of lines) {
+      const end = isClosed(line) ? line.length - 2 : line.length;
+      for (let i = 0; i < end; i += 2) {
+        index.add(line[i], line[i + 1]);
+      }
+    }
+    lines = lines.map(([ele, line]) => [ele, smoothLine(line, index)]);
+  }
+
+  const result: { [ele: number]: number[][] } = {};
+  for (const [ele, line] of lines) {
+    const list = result[Number(ele)] || (result[Number(ele)] = []);
+    list.push(removeDuplicatePoints(line.map(Math.round)));
+  }
+  return result;
+}
@@ -0,0 +1,156 @@
+import elevationStatistics, { summarizeElevations } from "./statistics";
+import type { DemTile } from "./types";
+
+const north = 85.0511287798066;
+
+// each pixel has its index as elevation, except for one out of range value
+const tile: DemTile = {
+  width: 4,
+  height: 4,
+  data: Float32Array.from({ length: 16 }, (_, i) => (i === 5 ? 10000 : i)),
+};
+
+test("summarize elevations", () => {
+  expect(
+    summarizeElevations(
+      Float32Array.from([5, 1, 4, 2, 3]),
+      [0, 25, 50, 100],
+      2,
+    ),
+  ).toEqual({
+    count: 5,
+    min: 1,
+    max: 5,
+    mean: 3,
+    percentiles: { 0: 1, 25: 2, 50: 3, 100: 5 },
+    histogram: { start: 0, binSize: 2, counts: [1, 2, 2] },
+  });
+  // interpolate between ranks
+  expect(
+    summarizeElevations(Float32Array.from([10, 20]), [75], 100).percentiles,
+  ).toEqual({ 75: 17.5 });
+  // histogram starts at a multiple of the bin size
+  expect(
+    summarizeElevations(Float32Array.from([-150, 250]), [], 100).histogram,
+  ).toEqual({ start: -200, binSize: 100, counts: [1, 0, 0, 0, 1] });
+});
+
+test("summarize no elevations", () => {
+  const result = summarizeElevations(new Float32Array(0), [50], 100);
+  expect(result.count).toBe(0);
+  expect(result.min).toBeNaN();
+  expect(result.max).toBeNaN();
+  expect(result.mean).toBeNaN();
+  expect(result.percentiles[50]).toBeNaN();
+  expect(result.histogram.counts).toEqual([]);
+});
+
+test("statistics of the whole world skip invalid pixels", async () => {
+  const fetchTile = jest.fn().mockResolvedValue(tile);
+  const result = await elevationStatistics(
+    [-180, -north, 180, north],
+    {},
+    0,
+    fetchTile,
+  );
+  expect(fetchTile.mock.calls).toEqual([[0, 0, 0]]);
+  expect(result).toMatchObject({ zoom: 0, count: 15, min: 0, max: 15 });
+  expect(result.mean).toBeCloseTo((120 - 5) / 15);
+});
+
+test("statistics pick the highest zoom with few enough tiles", async () => {
+  const fetchTile = jest.fn().mockResolvedValue(tile);
+  const result = await elevationStatistics(
+    [-180, -north, 180, north],
+    { maxTiles: 4 },
+    3,
+    fetchTile,
+  );
+  expect(result.zoom).toBe(1);
+  expect(result.count).toBe(60);
+  expect(fetchTile).toHaveBeenCalledTimes(4);
+
+  fetchTile.mockClear();
+  // small areas use the max zoom
+  expect((await elevationStatistics([1, 1, 2, 2], {}, 3, fetchTile)).zoom).toBe(
+    3,
+  );
+  expect(fetchTile.mock.calls).toEqual([[3, 4, 3]]);
+  // explicit zoom is capped at the max zoom
+  expect(
+    (await elevationStatistics([1, 1, 2, 2], { zoom: 5 }, 3, fetchTile)).zoom,
+  ).toBe(3);
+});
+
+test("statistics at a zoom with too many tiles fail before fetching", async () => {
+  const fetchTile = jest.fn().mockResolvedValue(tile);
+  await expect(
+    elevationStatistics([-180, -north, 180, north], { zoom: 3 }, 3, fetchTile),
+  ).rejects.toThrow("Area covers more than 16 tiles at zoom 3");
+  await expect(
+    elevationStatistics(
+      [-180, -north, 180, north],
+      { zoom: 2, maxTiles: 8 },
+      3,
+      fetchTile,
+    ),
+  ).rejects.toThrow("Area covers more than 8 tiles at zoom 2");
+  expect(fetchTile).not.toHaveBeenCalled();
+  expect(
+    (
+      await elevationStatistics(
+        [-180, -north, 180, north],
+        { zoom: 2 },
+        3,
+        fetchTile,
+      )
+    ).zoom,
+  ).toBe(2);
+});
+
+test("statistics masked by a polygon with a hole", async () => {
+  const fetchTile = jest.fn().mockResolvedValue(tile);
+  const result = await elevationStatistics(
+    {
+      // the western half of the world, without the middle of the first column
+      coordinates: [
+        [
+          [-180, -north],
+          [0, -north],
+          [0, north],
+          [-180, north],
+          [-180, -north],
+        ],
+        [
+          [-170, -60],
+          [-100, -60],
+          [-100, 60],
+          [-170, 60],
+          [-170, -60],
+        ],
+      ],
+    },
+    { percentiles: [50] },
+    0,
+    fetchTile,
+  );
+  // columns 0 and 1, except pixels 4 and 8 in the hole and invalid pixel 5
+  expect(result.count).toBe(5);
+  expect(result.min).toBe(0);
+  expect(result.max).toBe(13);
+  expect(result.percentiles).toEqual({ 50: 9 });
+});
+
+test("statistics across the antimeridian", async () => {
+  const fetchTile = jest.fn().mockResolvedValue(tile);
+  const result = await elevationStatistics(
+    [135, -north, -135, north],
+    {},
+    1,
+    fetchTile,
+  );
+  // the last column of the eastern tiles and the first column of the western tiles
+  expect(result.zoom).toBe(1);
+  expect(fetchTile.mock.calls.map(([, x]) => x).sort()).toEqual([0, 0, 1, 1]);
+  expect(result.count).toBe(16);
+});
@@ -0,0 +1,163 @@
+import { HeightTile } from "./height-tile";
+import { pointInRing } from "./isolines";
+import type {
+  DemTile,
+  ElevationStatistics,
+  ElevationStatisticsOptions,
+  Polygon,
+} from "./types";
+import { lngLatToTile } from "./utils";
+
+/**
+ * Computes the min, max, mean, percentiles, and histogram of a list of elevations.
+ *
+ * @param values Valid elevations, which get sorted in place
+ */
+export function summarizeElevations(
+  values: Float32Array,
+  percentiles: number[],
+  binSize: number,
+): Omit<ElevationStatistics, "zoom"> {
+  values.sort();
+  const count = values.length;
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += values[i];
+  const start = count > 0 ? Math.floor(values[0] / binSize) * binSize : 0;
+  const counts: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const bin = Math.floor((values[i] - start) / binSize);
+    while (counts.length <= bin) counts.push(0);
+    counts[bin]++;
+  }
+  return {
+    count,
+    min: count > 0 ? values[0] : NaN,
+    max: count > 0 ? values[count - 1] : NaN,
+    mean: count > 0 ? sum / count : NaN,
+    percentiles: Object.fromEntries(
+      percentiles.map((percentile) => {
+        // interpolate between the closest ranks
+        const rank =
+          (Math.min(100, Math.max(0, percentile)) / 100) * (count - 1);
+        const lo = Math.floor(rank);
+        const hi = Math.min(lo + 1, count - 1);
+        return [
+          percentile,
+          count > 0
+            ? values[lo] + (values[hi] - values[lo]) * (rank - lo)
+            : NaN,
+        ];
+      }),
+    ),
+    histogram: { start, binSize, counts },
+  };
+}
+
+/**
+ * Computes statistics of the elevations in a bounding box or polygon, from the centers of DEM pixels inside of it.
+ *
+ * @param area `[west, south, east, north]` bounding box, or GeoJSON polygon in `[lng, lat]` coordinates
+ * @param maxzoom Maximum zoom of tiles available in the source
+ * @param fetchTile Fetches and decodes the DEM tile at `z, x, y`
+ */
+export default async function elevationStatistics(
+  area: [number, number, number, number] | Polygon,
+  {
+    zoom,
+    maxTiles = 16,
+    percentiles = [5, 25, 50, 75, 95],
+    binSize = 100,
+  }: ElevationStatisticsOptions,
+  maxzoom: number,
+  fetchTile: (z: number, x: number, y: number) => Promise<DemTile>,
+): Promise<ElevationStatistics> {
+  // bounding boxes with east < west cross the antimeridian
+  const rings = Array.isArray(area)
+    ? [
+        [
+          [area[0], area[1]],
+          [area[2] + (area[2] < area[0] ? 360 : 0), area[1]],
+          [area[2] + (area[2] < area[0] ? 360 : 0), area[3]],
+          [area[0], area[3]],
+        ],
+      ]
+    : area.coordinates;
+  const points = rings.flat();
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  const west = Math.min(...lngs);
+  // in fractions of the world at zoom 0, continuing past the antimeridian instead of wrapping around
+  const [minX, maxY] = lngLatToTile(west, Math.min(...lats), 0);
+  const minY = lngLatToTile(west, Math.max(...lats), 0)[1];
+  const maxX = minX + (Math.max(...lngs) - west) / 360;
+  const tileRange = (z: number) => {
+    const tiles = 1 << z;
+    const firstX = Math.floor(minX * tiles);
+    const firstY = Math.floor(minY * tiles);
+    return {
+      firstX,
+      firstY,
+      lastX: Math.max(firstX, Math.ceil(maxX * tiles) - 1),
+      lastY: Math.max(firstY, Math.min(Math.ceil(maxY * tiles), tiles) - 1),
+    };
+  };
+
+  const tileCount = (z: number) => {
+    const { firstX, firstY, lastX, lastY } = tileRange(z);
+    return (lastX - firstX + 1) * (lastY - firstY + 1);
+  };
+  let z = Math.max(0, Math.min(Math.floor(zoom ?? Infinity), maxzoom));
+  if (zoom === undefined) {
+    while (z > 0 && tileCount(z) > maxTiles) z--;
+  }
+  if (!(tileCount(z) <= maxTiles)) {
+    throw new Error(`Area covers more than ${maxTiles} tiles at zoom ${z}`);
+  }
+  const tiles = 1 << z;
+  const flatRings = rings.map((ring) =>
+    ring.flatMap(([lng, lat]) => [
+      (minX + (lng - west) / 360) * tiles,
+      lngLatToTile(lng, lat, z)[1],
+    ]),
+  );
+  const inside = (x: number, y: number) =>
+    x >= minX * tiles &&
+    x <= maxX * tiles &&
+    y >= minY * tiles &&
+    y <= maxY * tiles &&
+    flatRings.reduce(
+      (result, ring) => result !== pointInRing(x, y, ring),
+      false,
+    );
+
+  const { firstX, firstY, lastX, lastY } = tileRange(z);
+  const requests: Promise<{ x: number; y: number; tile: HeightTile }>[] = [];
+  for (let y = firstY; y <= lastY; y++) {
+    for (let x = firstX; x <= lastX; x++) {
+      requests.push(
+        fetchTile(z, x % tiles, y).then((tile) => ({
+          x,
+          y,
+          tile: HeightTile.fromRawDem(tile),
+        })),
+      );
+    }
+  }
+
+  const values: number[] = [];
+  for (const { x, y, tile } of await Promise.all(requests)) {
+    for (let row = 0; row < tile.height; row++) {
+      const py = y + (row + 0.5) / tile.height;
+      for (let col = 0; col < tile.width; col++) {
+        const value = tile.get(col, row);
+        if (!isNaN(value) && inside(x + (col + 0.5) / tile.width, py)) {
+          values.push(value);
+        }
+      }
+    }
+  }
+  return {
+    zoom: z,
+    ...summarizeElevations(Float32Array.from(values), percentiles, binSize),
+  };
+}
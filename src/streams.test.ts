@@ -0,0 +1,55 @@
+import { HeightTile } from "./height-tile";
+import findStreams from "./streams";
+
+// valley down the middle column, sloping down to the south
+const valley = new HeightTile(9, 9, (x, y) => Math.abs(x - 4) * 10 + (8 - y));
+
+test("stream down a valley", () => {
+  // each row drains into the middle of the valley, so 9 more pixels join the stream on every row
+  expect(findStreams(valley, 20, 0, 90)).toEqual([
+    {
+      line: [45, 25, 45, 35, 45, 45, 45, 55, 45, 65, 45, 75, 45, 85],
+      accumulation: 81,
+    },
+  ]);
+  expect(findStreams(valley, 100, 0, 90)).toEqual([]);
+});
+
+test("streams split at confluences", () => {
+  // two valleys coming from the north-west and north-east join in the middle and continue south
+  const path = (y: number) => (y >= 4 ? [4] : [y, 8 - y]);
+  const tile = new HeightTile(
+    9,
+    9,
+    (x, y) =>
+      Math.min(...path(y).map((px) => Math.abs(x - px))) * 10 + (8 - y) * 2,
+  );
+  const streams = findStreams(tile, 10, 0, 90);
+  expect(streams.length).toBe(3);
+  const ends = streams.map(({ line }) => line.slice(-2).join(","));
+  const starts = streams.map(({ line }) => line.slice(0, 2).join(","));
+  // both tributaries end where the main stream starts
+  expect(ends.filter((end) => end === "45,45")).toHaveLength(2);
+  expect(starts).toContain("45,45");
+  const main = streams.find(({ line }) => line[1] === 45)!;
+  expect(main.line.slice(-2)).toEqual([45, 85]);
+  expect(main.accumulation).toBe(81);
+});
+
+test("streams flow through the buffer", () => {
+  // the valley continues past the edges of the tile
+  const tile = new HeightTile(5, 5, (x, y) => Math.abs(x - 2) * 10 + (8 - y));
+  const [stream] = findStreams(tile, 10, 2, 50);
+  expect(stream.line.slice(0, 2)).toEqual([25, -5]);
+  expect(stream.line.slice(-2)).toEqual([25, 65]);
+  expect(stream.accumulation).toBe(81);
+});
+
+test("streams end at pits and missing data", () => {
+  const bowl = new HeightTile(5, 5, (x, y) => Math.hypot(x - 2, y - 2));
+  const streams = findStreams(bowl, 2, 0, 50);
+  for (const { line } of streams) {
+    expect(line.slice(-2)).toEqual([25, 25]);
+  }
+  expect(findStreams(new HeightTile(3, 3, () => NaN), 1, 0, 3)).toEqual([]);
+});
@@ -0,0 +1,116 @@
+import type { HeightTile } from "./height-tile";
+
+export interface Stream {
+  /** `[x1, y1, x2, y2, ...]` line in tile coordinates, flowing downstream */
+  line: number[];
+  /** Number of pixels that drain through the last point of the line */
+  accumulation: number;
+}
+
+// neighbors in a fixed order so ties always resolve the same way
+const NEIGHBORS = [
+  [0, -1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [-1, -1],
+];
+
+/**
+ * Extracts drainage lines from a height tile: each pixel flows to its steepest downhill neighbor (D8), and
+ * pixels that at least `threshold` pixels drain through are connected into lines that split at confluences.
+ *
+ * Water only flows within `buffer` pixels around the tile, so catchments that extend further are underestimated,
+ * and flow stops at pits and flat areas.
+ *
+ * @param tile The input height tile, where values represent the height at the center of each pixel
+ * and neighboring tiles are available outside of its bounds
+ * @param threshold Minimum number of pixels draining through a pixel for it to be part of a stream
+ * @param buffer Number of pixels outside the tile to include
+ * @param extent Vector tile extent (default 4096)
+ * @returns streams in tile coordinates, including the parts in the buffer
+ */
+export default function findStreams(
+  tile: HeightTile,
+  threshold: number,
+  buffer: number,
+  extent: number = 4096,
+): Stream[] {
+  const width = tile.width + 2 * buffer;
+  const height = tile.height + 2 * buffer;
+  const count = width * height;
+  const elevations = new Float32Array(count);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      elevations[y * width + x] = tile.get(x - buffer, y - buffer);
+    }
+  }
+
+  // flow direction: index of the neighbor with the steepest drop, or -1 for pits and flats
+  const downstream = new Int32Array(count).fill(-1);
+  const order: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const elevation = elevations[i];
+      if (isNaN(elevation)) continue;
+      order.push(i);
+      let steepest = 0;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        const drop = (elevation - elevations[n]) / Math.hypot(dx, dy);
+        if (drop > steepest) {
+          steepest = drop;
+          downstream[i] = n;
+        }
+      }
+    }
+  }
+
+  // water only flows downhill, so visiting pixels from highest to lowest adds up each one before it flows on
+  order.sort((a, b) => elevations[b] - elevations[a] || a - b);
+  const accumulation = new Uint32Array(count);
+  for (const i of order) {
+    accumulation[i]++;
+    if (downstream[i] >= 0) {
+      accumulation[downstream[i]] += accumulation[i];
+    }
+  }
+
+  const tributaries = new Uint8Array(count);
+  for (const i of order) {
+    if (accumulation[i] >= threshold && downstream[i] >= 0) {
+      tributaries[downstream[i]]++;
+    }
+  }
+
+  const multiplier = extent / tile.width;
+  const pushPoint = (line: number[], i: number) =>
+    line.push(
+      Math.round(((i % width) - buffer + 0.5) * multiplier),
+      Math.round((Math.floor(i / width) - buffer + 0.5) * multiplier),
+    );
+  const result: Stream[] = [];
+  for (const start of order) {
+    // lines start at the head of each stream and below each confluence
+    if (accumulation[start] < threshold || tributaries[start] === 1) continue;
+    const line: number[] = [];
+    pushPoint(line, start);
+    let i = start;
+    while (downstream[i] >= 0) {
+      i = downstream[i];
+      pushPoint(line, i);
+      if (tributaries[i] !== 1) break;
+    }
+    if (line.length >= 4) {
+      result.push({ line, accumulation: accumulation[i] });
+    }
+  }
+  return result;
+}
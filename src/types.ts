@@ -2,8 +2,40 @@ import type Actor from "./actor";
 import type { Timer } from "./performance";
 import type WorkerDispatch from "./worker-dispatch";
 
+/**
+ * Factors of a maplibre `"custom"` raster-dem encoding, where the elevation of each pixel is
+ * `r * redFactor + g * greenFactor + b * blueFactor - baseShift`.
+ */
+export interface CustomEncoding {
+  redFactor: number;
+  greenFactor: number;
+  blueFactor: number;
+  baseShift: number;
+}
 /** Scheme used to map pixel rgb values elevations. */
-export type Encoding = "terrarium" | "mapbox";
+export type RgbEncoding = "terrarium" | "mapbox" | CustomEncoding;
+/**
+ * Tiles of raw little-endian elevation values in row-major order, where the elevation of each pixel is
+ * `value * scale + offset`.
+ */
+export interface RawEncoding {
+  format: "int16" | "float32";
+  /** width and height of each tile */
+  tileSize: number;
+  /** default=1 */
+  scale?: number;
+  /** default=0 */
+  offset?: number;
+  /** value of pixels without data, which decode to `NaN` */
+  noData?: number;
+  /** true when tiles are gzip compressed without a `Content-Encoding` header, default=false */
+  gzip?: boolean;
+}
+/**
+ * Format of DEM tiles: images with an rgb encoding, `"lerc"` for LERC compressed rasters, or raw
+ * elevation values.
+ */
+export type Encoding = RgbEncoding | "lerc" | RawEncoding;
 export interface IsTransferrable {
   transferrables: Transferable[];
 }
@@ -24,6 +56,12 @@ export interface TransferrableContourTile
   extends ContourTile,
     IsTransferrable {}
 
+/** A rendered hillshade tile */
+export interface HillshadeTile {
+  /** Encoded PNG image bytes */
+  arrayBuffer: ArrayBuffer;
+}
+
 export interface FetchResponse {
   data: Blob;
   expires?: string;
@@ -51,15 +89,136 @@ export interface ContourTileOptions {
   levelKey?: string;
   /** Name of the vector tile layer to put contour lines in */
   contourLayer?: string;
+  /**
+   * Side of each contour line that higher ground is on when looking along the direction of the line (default "left").
+   * Every line in a tile follows the same orientation, so styles can draw tick marks or place labels on a consistent side.
+   */
+  uphill?: ContourSide;
+  /**
+   * Key for a boolean property set on each contour line that is true when the line is part of a closed ring, or omit to
+   * skip it. Rings are followed through the neighboring tiles so that rings crossing the tile edge are still detected, which
+   * makes generating the tile slower. Rings that extend past the neighboring tiles are treated as open lines.
+   */
+  closedKey?: string;
+  /**
+   * Key for a boolean property set on each closed ring that is true when it encloses lower ground (a depression) and false
+   * when it encloses higher ground, or omit to skip it. Like `closedKey` this follows rings through the neighboring tiles.
+   */
+  depressionKey?: string;
+  /**
+   * Name of the vector tile layer to put filled polygons for each elevation band between minor contour
+   * lines in, or omit to skip generating them. The `elevationKey` property is set to the lower bound of each band.
+   * Band edges are smoothed, simplified, and clipped like the contour lines.
+   */
+  isobandLayer?: string;
+  /**
+   * How to resolve ambiguous marching squares cells at passes and saddles (default "fixed"). "average" and
+   * "asymptotic" use the terrain in the cell to decide whether the higher corners are connected.
+   */
+  saddleMethod?: SaddleMethod;
+  /**
+   * Name of the vector tile layer to put label anchor points for the contour lines with the highest `level` in, or
+   * omit to skip generating them. Each point has the `elevationKey` and `levelKey` properties of its line, and an `angle`
+   * property with the clockwise rotation in degrees that makes the top of the label point uphill.
+   */
+  labelLayer?: string;
+  /** Length of the straight stretch of line each label needs, in pixels at 512px per tile (default 40) */
+  labelLength?: number;
+  /** Minimum distance along a line between labels, in pixels at 512px per tile (default 256) */
+  labelSpacing?: number;
+  /**
+   * Name of the vector tile layer to put summit points in, or omit to skip generating them. Each point has the
+   * `elevationKey` property set to the elevation of the summit.
+   */
+  peakLayer?: string;
+  /**
+   * Only include summits that are higher than everything within this many pixels (at 512px per tile), up to the width
+   * of a tile, to filter out noise (default 0 to include every local maximum).
+   */
+  peakIsolation?: number;
+  /**
+   * Name of the vector tile layer to put slope angle polygons in, or omit to skip generating them. Each polygon has a
+   * `slope` property set to the lower bound in degrees of its class in `slopeClasses`.
+   */
+  slopeLayer?: string;
+  /**
+   * Lower bounds of the slope angle classes in degrees (default [30, 35, 40, 45]), where the last class includes everything
+   * steeper and slopes below the first class are left out.
+   */
+  slopeClasses?: number[];
+  /**
+   * Name of the vector tile layer to put approximate drainage lines in, or omit to skip generating them. Each line has
+   * an `accumulation` property with the number of DEM pixels that drain through its downstream end.
+   */
+  streamLayer?: string;
+  /** Minimum number of DEM pixels that drain through a point for it to be part of a stream (default 100) */
+  streamThreshold?: number;
+  /**
+   * How far into the neighboring tiles to follow water, in pixels at 512px per tile, up to the width of a tile (default 256).
+   * Larger values make streams more consistent across tile edges but take longer to generate.
+   */
+  streamBuffer?: number;
   /** Grid size of the vector tile (default 4096) */
   extent?: number;
   /** How many pixels to generate on each tile into the neighboring tile to reduce rendering artifacts */
   buffer?: number;
+  /**
+   * Distance in tile units past the edge of the tile to clip contour lines to, instead of `buffer` pixels. Either
+   * way lines are clipped exactly to the buffer and split where they leave it, so adjacent tiles overlap consistently.
+   */
+  clipBuffer?: number;
   /** When overzooming tiles, subsample to scale up to at least this size to make the contour lines smoother at higher zooms. */
   subsampleBelow?: number;
+  /**
+   * Remove contour line vertices that deviate less than this many pixels (at 512px per tile) from the
+   * simplified line, or omit to keep every vertex. Vertices on either side of a tile edge are always kept
+   * so lines still join across tiles.
+   */
+  simplify?: number;
+  /** Line simplification algorithm to use when `simplify` is set (default "douglas-peucker") */
+  simplifyAlgorithm?: SimplifyAlgorithm;
+  /**
+   * Number of iterations of Chaikin corner-cutting to smooth contour lines with (default 0). Corners are
+   * left in place where cutting them would make neighboring contour lines cross, and the endpoints
+   * at the edge of the tile buffer never move.
+   */
+  smooth?: number;
+  /**
+   * Drop contour lines shorter than this many pixels (at 512px per tile), or omit to keep every line. Lines that run
+   * off the edge of the tile buffer are always kept since they continue into the neighboring tile.
+   */
+  minLength?: number;
+  /** Drop closed contour rings that enclose less than this many square pixels (at 512px per tile), or omit to keep every ring */
+  minArea?: number;
+}
+
+export type ContourSide = "left" | "right";
+
+/**
+ * How to resolve marching squares cells where diagonally opposite corners are above the threshold:
+ * - "fixed": always separate the higher corners
+ * - "average": connect the higher corners when the average of the 4 corners is above the threshold
+ * - "asymptotic": connect the higher corners when the saddle point of the bilinear interpolation of the cell is above the threshold
+ */
+export type SaddleMethod = "fixed" | "average" | "asymptotic";
+
+export type SimplifyAlgorithm = "douglas-peucker" | "visvalingam";
+
+/** Map from zoom level to a value, where zooms without an entry use the value for the next lower zoom. */
+export interface ZoomMap<T> {
+  [n: number]: T;
 }
 
-export interface GlobalContourTileOptions extends ContourTileOptions {
+/** Options that can be set to either a single value, or a different value for each zoom. */
+export type ZoomDependentOptions =
+  | "simplify"
+  | "smooth"
+  | "peakIsolation"
+  | "minLength"
+  | "minArea";
+
+export interface GlobalContourTileOptions
+  extends Omit<ContourTileOptions, ZoomDependentOptions> {
   /**
    * Map from zoom level to the `[minor, major]` elevation distance between contour lines.
    *
@@ -68,11 +227,147 @@ export interface GlobalContourTileOptions extends ContourTileOptions {
    * The `level` tag on each contour line will have an integer that corresponds to the largest index in
    * this array that the elevation is a multiple of.
    */
-  thresholds: { [n: number]: number | number[] };
+  thresholds?: ZoomMap<number | number[]>;
+  /**
+   * Map from zoom level to an explicit list of elevations to generate contour lines at, as an alternative
+   * to regularly-spaced `thresholds`.
+   *
+   * Zoom levels without an entry will use the list for the next lower zoom. When `thresholds` are also set,
+   * they are only used to assign the `level` tag on each contour line, otherwise every line has level 0.
+   */
+  elevations?: ZoomMap<number[]>;
+  /** Line simplification tolerance, or a map from zoom level to tolerance */
+  simplify?: number | ZoomMap<number>;
+  /** Number of smoothing iterations, or a map from zoom level to number of iterations */
+  smooth?: number | ZoomMap<number>;
+  /** Summit isolation distance, or a map from zoom level to isolation distance */
+  peakIsolation?: number | ZoomMap<number>;
+  /** Minimum line length, or a map from zoom level to minimum length */
+  minLength?: number | ZoomMap<number>;
+  /** Minimum ring area, or a map from zoom level to minimum area */
+  minArea?: number | ZoomMap<number>;
 }
 
 export interface IndividualContourTileOptions extends ContourTileOptions {
   levels: number[];
+  /** Elevations to generate contour lines at instead of every multiple of `levels[0]` */
+  elevations?: number[];
+}
+
+/** Parameters to use when rendering a hillshade image from raw elevation data */
+export interface HillshadeOptions {
+  /** Direction the sun shines from in degrees clockwise from north (default 315, north-west) */
+  azimuth?: number;
+  /** Angle of the sun above the horizon in degrees (default 45) */
+  altitude?: number;
+  /** Factor to exaggerate elevations by (default 1) */
+  zFactor?: number;
+  /**
+   * Blend light from 4 directions 45 degrees apart ending at `azimuth`, weighting each by how much the slope
+   * faces across it, to show detail on slopes that face toward or away from the sun (default false).
+   */
+  multidirectional?: boolean;
+  /** Request `raster-dem` tiles from lower zoom levels, the same as `ContourTileOptions.overzoom` */
+  overzoom?: number;
+}
+
+/** A GeoJSON LineString geometry, or anything else with a list of `[lng, lat]` coordinates. */
+export interface LineString {
+  coordinates: number[][];
+}
+
+/** A GeoJSON Polygon geometry, or anything else with a list of rings of `[lng, lat]` coordinates. */
+export interface Polygon {
+  coordinates: number[][][];
+}
+
+export interface ElevationStatisticsOptions {
+  /** Zoom level of the tiles to use, defaults to the highest zoom where the area is covered by at most `maxTiles` tiles */
+  zoom?: number;
+  /** Maximum number of tiles to fetch, areas that cover more tiles at `zoom` fail (default 16) */
+  maxTiles?: number;
+  /** Percentiles from 0 to 100 to compute (default [5, 25, 50, 75, 95]) */
+  percentiles?: number[];
+  /** Width of each histogram bin in meters (default 100) */
+  binSize?: number;
+}
+
+/** Summary of the valid elevations in an area, in meters */
+export interface ElevationStatistics {
+  /** Zoom level of the tiles the statistics were computed from */
+  zoom: number;
+  /** Number of valid pixels in the area */
+  count: number;
+  /** Lowest elevation, or `NaN` if there are no valid pixels */
+  min: number;
+  /** Highest elevation, or `NaN` if there are no valid pixels */
+  max: number;
+  /** Average elevation, or `NaN` if there are no valid pixels */
+  mean: number;
+  /** Map from each requested percentile to the elevation at that percentile */
+  percentiles: { [percentile: number]: number };
+  histogram: {
+    /** Lower bound of the first bin, a multiple of `binSize` */
+    start: number;
+    binSize: number;
+    /** Number of pixels in each bin */
+    counts: number[];
+  };
+}
+
+export interface ElevationProfileOptions {
+  /** Distance in meters between elevation samples along the line (default 10) */
+  interval?: number;
+  /** Zoom level of the tiles to sample, defaults to the maximum zoom of the source */
+  zoom?: number;
+}
+
+/** Elevations sampled along a line, in meters */
+export interface ElevationProfile {
+  /** Distance of each sample from the start of the line in meters, ending with the full length of the line */
+  distances: number[];
+  /** Elevation at each sample, or `NaN` where there is no data */
+  elevations: number[];
+  /** Sum of every increase in elevation between samples */
+  ascent: number;
+  /** Sum of every decrease in elevation between samples, as a positive number */
+  descent: number;
+  /** Lowest elevation sampled, or `NaN` if there is no data along the line */
+  min: number;
+  /** Highest elevation sampled, or `NaN` if there is no data along the line */
+  max: number;
+}
+
+export interface ViewshedOptions {
+  /** Distance from the observer in meters to compute visibility out to */
+  radius: number;
+  /** Height of the observer's eyes above the ground in meters (default 1.7) */
+  observerHeight?: number;
+  /** Height above the ground that targets need to be seen at in meters (default 0) */
+  targetHeight?: number;
+  /**
+   * Lower distant targets to account for the curvature of the earth and atmospheric refraction (default false),
+   * which hides about 7m at 10km.
+   */
+  curvature?: boolean;
+  /** Zoom level of the tiles to use, defaults to the highest zoom where the radius is covered by at most `maxTiles` tiles */
+  zoom?: number;
+  /** Maximum number of tiles to fetch, requests that need more tiles at `zoom` are rejected (default 16) */
+  maxTiles?: number;
+}
+
+/** Area visible from an observer */
+export interface Viewshed {
+  /** Width of the mask in pixels */
+  width: number;
+  /** Height of the mask in pixels */
+  height: number;
+  /** 1 for each visible pixel and 0 for hidden pixels or pixels out of range, in row-major order */
+  mask: Uint8Array;
+  /** `[west, south, east, north]` edges of the mask, which is aligned to web mercator tiles */
+  bounds: [number, number, number, number];
+  /** GeoJSON MultiPolygon geometry of the visible area */
+  geometry: { type: "MultiPolygon"; coordinates: number[][][][] };
 }
 
 export interface Image {
@@ -81,7 +376,14 @@ export interface Image {
   data: Uint8Array;
 }
 
-export type TimingCategory = "main" | "worker" | "fetch" | "decode" | "isoline";
+export type TimingCategory =
+  | "main"
+  | "worker"
+  | "fetch"
+  | "decode"
+  | "isoline"
+  | "hillshade"
+  | "viewshed";
 
 /** Performance profile for a tile request */
 export interface Timing {
@@ -95,12 +397,12 @@ export interface Timing {
   fetch?: number;
   /** Time spent decoding all raster-rgb images, or `undefined` if it was cached */
   decode?: number;
-  /** Time spent generating isolines and rendering the vector tile, or `undefined` if it was cached */
+  /** Time spent generating isolines, hillshading, or viewsheds and encoding the result, or `undefined` if it was cached */
   process?: number;
   wait: number;
   /** Number of tiles used for generation, even if they were cached */
   tilesUsed: number;
-  /** Map from category (fetch, main, isoline) to list of start/end timestamps */
+  /** Map from category (fetch, main, isoline, hillshade, viewshed) to list of start/end timestamps */
   marks: {
     [key in TimingCategory]?: number[][];
   };
@@ -116,6 +418,8 @@ export interface Timing {
  */
 export interface DemManager {
   loaded: Promise<any>;
+  /** Maximum zoom of tiles in the source, which can change once `loaded` resolves */
+  maxzoom: number;
   fetchTile(
     z: number,
     x: number,
@@ -138,6 +442,39 @@ export interface DemManager {
     abortController: AbortController,
     timer?: Timer,
   ): Promise<ContourTile>;
+  fetchHillshadeTile(
+    z: number,
+    x: number,
+    y: number,
+    options: HillshadeOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<HillshadeTile>;
+  fetchElevations(
+    points: [number, number][],
+    zoom: number | undefined,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<number[]>;
+  fetchElevationProfile(
+    line: LineString,
+    options: ElevationProfileOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationProfile>;
+  fetchElevationStatistics(
+    area: [number, number, number, number] | Polygon,
+    options: ElevationStatisticsOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationStatistics>;
+  fetchViewshed(
+    lng: number,
+    lat: number,
+    options: ViewshedOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<Viewshed>;
 }
 
 export type GetTileFunction = (
@@ -145,6 +482,14 @@ export type GetTileFunction = (
   abortController: AbortController,
 ) => Promise<FetchResponse>;
 
+/** Fetches `length` bytes of a file starting at `offset`, or fewer past the end of the file. */
+export type GetRangeFunction = (
+  url: string,
+  offset: number,
+  length: number,
+  abortController: AbortController,
+) => Promise<ArrayBuffer>;
+
 export type DecodeImageFunction = (
   blob: Blob,
   encoding: Encoding,
@@ -154,15 +499,20 @@ export type DecodeImageFunction = (
 export type DemManagerRequiredInitializationParameters = {
   demUrlPattern: string;
   cacheSize: number;
-  encoding: Encoding;
-  maxzoom: number;
+  /** Defaults to the `encoding` in the metadata of `pmtiles://` sources, otherwise `"terrarium"` */
+  encoding?: Encoding;
+  /** Defaults to the max zoom of `pmtiles://` sources, otherwise 12 */
+  maxzoom?: number;
   timeoutMs: number;
+  /** Width and height of tiles resampled from `cog://` and `hgt://` sources (default 512) */
+  tileSize?: number;
 };
 
 export type DemManagerInitizlizationParameters =
   DemManagerRequiredInitializationParameters & {
     decodeImage?: DecodeImageFunction;
     getTile?: GetTileFunction;
+    getRange?: GetRangeFunction;
     actor?: Actor<WorkerDispatch>;
   };
 
@@ -7,6 +7,9 @@ import {
   encodeIndividualOptions,
   encodeOptions,
   getOptionsForZoom,
+  isMultiple,
+  lngLatToTile,
+  multiplesBetween,
   offscreenCanvasSupported,
   shouldUseVideoFrame,
   withTimeout,
@@ -87,6 +90,151 @@ test("extract levels from global contour options", () => {
   });
 });
 
+test("round-trip zoom-dependent options", () => {
+  const options: GlobalContourTileOptions = {
+    thresholds: {
+      10: [500],
+    },
+    simplify: {
+      10: 2,
+      14: 0.5,
+    },
+    simplifyAlgorithm: "visvalingam",
+    smooth: {
+      14: 2,
+    },
+    peakLayer: "peaks",
+    peakIsolation: {
+      11: 20,
+      13: 10,
+    },
+    slopeLayer: "slopes",
+    slopeClasses: [30, 35, 40, 45],
+  };
+  expect(decodeOptions(encodeOptions(options))).toEqual(options);
+  const single: GlobalContourTileOptions = {
+    thresholds: {
+      10: [500],
+    },
+    simplify: 1.5,
+  };
+  expect(decodeOptions(encodeOptions(single))).toEqual(single);
+});
+
+test("extract zoom-dependent options for zoom", () => {
+  const options: GlobalContourTileOptions = {
+    thresholds: {
+      10: 500,
+    },
+    simplify: {
+      10: 2,
+      14: 0.5,
+    },
+  };
+  expect(getOptionsForZoom(options, 9)).toEqual({ levels: [] });
+  expect(getOptionsForZoom(options, 12)).toEqual({
+    levels: [500],
+    simplify: 2,
+  });
+  expect(getOptionsForZoom(options, 15)).toEqual({
+    levels: [500],
+    simplify: 0.5,
+  });
+  expect(getOptionsForZoom({ ...options, smooth: { 14: 2 } }, 15)).toEqual({
+    levels: [500],
+    simplify: 0.5,
+    smooth: 2,
+  });
+  expect(
+    getOptionsForZoom({ ...options, peakIsolation: { 11: 20, 13: 10 } }, 12),
+  ).toEqual({
+    levels: [500],
+    simplify: 2,
+    peakIsolation: 20,
+  });
+  expect(getOptionsForZoom({ ...options, simplify: 1 }, 9)).toEqual({
+    levels: [],
+    simplify: 1,
+  });
+});
+
+test("round-trip label options", () => {
+  const options: GlobalContourTileOptions = {
+    thresholds: { 10: [100, 500] },
+    labelLayer: "labels",
+    labelLength: 40,
+    labelSpacing: 256,
+  };
+  expect(decodeOptions(encodeOptions(options))).toEqual(options);
+});
+
+test("round-trip explicit elevations", () => {
+  const options: GlobalContourTileOptions = {
+    elevations: {
+      10: [0, 5, 10, 25, 50, 100, 200],
+      12: [0.5, 1],
+    },
+  };
+  expect(decodeOptions(encodeOptions(options))).toEqual(options);
+});
+
+test("extract explicit elevations for zoom", () => {
+  const options: GlobalContourTileOptions = {
+    thresholds: {
+      11: [100, 200],
+    },
+    elevations: {
+      10: [0, 5, 10],
+      12: [0, 100, 200],
+    },
+  };
+  expect(getOptionsForZoom(options, 9)).toEqual({ levels: [] });
+  expect(getOptionsForZoom(options, 10)).toEqual({
+    levels: [],
+    elevations: [0, 5, 10],
+  });
+  expect(getOptionsForZoom(options, 11)).toEqual({
+    levels: [100, 200],
+    elevations: [0, 5, 10],
+  });
+  expect(getOptionsForZoom(options, 13)).toEqual({
+    levels: [100, 200],
+    elevations: [0, 100, 200],
+  });
+});
+
+test("multiples of floating-point intervals", () => {
+  expect(isMultiple(300, 100)).toBe(true);
+  expect(isMultiple(300, 40)).toBe(false);
+  expect(isMultiple(0.1 + 0.2, 0.3)).toBe(true);
+  expect(isMultiple(0.1 * 3, 0.1)).toBe(true);
+  expect(isMultiple(1.5, 0.5)).toBe(true);
+  expect(isMultiple(1.25, 0.5)).toBe(false);
+  expect(isMultiple(-100, 50)).toBe(true);
+});
+
+test("union of non-nested intervals", () => {
+  expect(multiplesBetween([40, 100], 50, 310)).toEqual([
+    80, 100, 120, 160, 200, 240, 280, 300,
+  ]);
+  expect(multiplesBetween([0.1, 0.25], 0, 0.5)).toEqual([
+    0, 0.1, 0.2, 0.25, 0.3, 0.4, 0.5,
+  ]);
+  expect(multiplesBetween([40, 100], 101, 119)).toEqual([]);
+});
+
+test("lng/lat to tile coordinates", () => {
+  expect(lngLatToTile(0, 0, 0)).toEqual([0.5, 0.5]);
+  expect(lngLatToTile(-180, 0, 2)).toEqual([0, 2]);
+  expect(lngLatToTile(180, 0, 2)).toEqual([0, 2]);
+  expect(lngLatToTile(-90, 0, 2)).toEqual([1, 2]);
+  expect(lngLatToTile(270, 0, 2)).toEqual([1, 2]);
+  const [, y] = lngLatToTile(0, 85.0511287798, 1);
+  expect(y).toBeCloseTo(0);
+  expect(lngLatToTile(0, 90, 1)).toEqual([1, 0]);
+  expect(lngLatToTile(0, -90, 1)).toEqual([1, 2]);
+});
+
 test("encode individual options", () => {
   const options: IndividualContourTileOptions = {
     levels: [1, 2],
@@ -2,9 +2,12 @@ import type {
   ContourTile,
   DemTile,
   GlobalContourTileOptions,
+  HillshadeOptions,
   IndividualContourTileOptions,
   TransferrableContourTile,
   TransferrableDemTile,
+  ZoomDependentOptions,
+  ZoomMap,
 } from "./types";
 
 function sortedEntries(object: any): [string, any][] {
@@ -13,9 +16,7 @@ function sortedEntries(object: any): [string, any][] {
   return entries;
 }
 
-function encodeThresholds(thresholds: {
-  [n: number]: number | number[];
-}): string {
+function encodeThresholds(thresholds: ZoomMap<number | number[]>): string {
   return sortedEntries(thresholds)
     .map(([key, value]) =>
       [key, ...(typeof value === "number" ? [value] : value)].join("*"),
@@ -23,9 +24,7 @@ function encodeThresholds(thresholds: {
     .join("~");
 }
 
-function decodeThresholds(thresholds: string): {
-  [n: number]: number | number[];
-} {
+function decodeThresholds(thresholds: string): ZoomMap<number | number[]> {
   return Object.fromEntries(
     thresholds
       .split("~")
@@ -34,14 +33,40 @@ function decodeThresholds(thresholds: string): {
   );
 }
 
+function decodeZoomDependent(value: string): number | ZoomMap<number> {
+  if (!value.includes("*")) {
+    return Number(value);
+  }
+  return Object.fromEntries(
+    Object.entries(decodeThresholds(value)).map(([key, values]) => [
+      key,
+      (values as number[])[0],
+    ]),
+  );
+}
+
+/** Options that can be set to either a single number, or a map from zoom level to number. */
+const zoomDependentOptions: ZoomDependentOptions[] = [
+  "simplify",
+  "smooth",
+  "peakIsolation",
+  "minLength",
+  "minArea",
+];
+
 export function encodeOptions({
   thresholds,
+  elevations,
   ...rest
 }: GlobalContourTileOptions): string {
-  return sortedEntries({ thresholds: encodeThresholds(thresholds), ...rest })
+  return sortedEntries({
+    ...(thresholds && { thresholds: encodeThresholds(thresholds) }),
+    ...(elevations && { elevations: encodeThresholds(elevations) }),
+    ...rest,
+  })
     .map(
       ([key, value]) =>
-        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+        `${encodeURIComponent(key)}=${encodeURIComponent(Array.isArray(value) ? value.join(",") : typeof value === "object" ? encodeThresholds(value) : value)}`,
     )
     .join("&");
 }
@@ -57,12 +82,28 @@ export function decodeOptions(options: string): GlobalContourTileOptions {
         let v: any = parts[1];
         switch (k) {
           case "thresholds":
+          case "elevations":
             v = decodeThresholds(v);
             break;
+          case "simplify":
+          case "smooth":
+          case "peakIsolation":
+          case "minLength":
+          case "minArea":
+            v = decodeZoomDependent(v);
+            break;
+          case "slopeClasses":
+            v = v.split(",").map(Number);
+            break;
           case "extent":
           case "multiplier":
           case "overzoom":
           case "buffer":
+          case "clipBuffer":
+          case "streamThreshold":
+          case "streamBuffer":
+          case "labelLength":
+          case "labelSpacing":
             v = Number(v);
         }
         return [k, v];
@@ -70,6 +111,25 @@ export function decodeOptions(options: string): GlobalContourTileOptions {
   ) as any as GlobalContourTileOptions;
 }
 
+export function encodeHillshadeOptions(options: HillshadeOptions): string {
+  return sortedEntries(options)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join("&");
+}
+
+export function decodeHillshadeOptions(options: string): HillshadeOptions {
+  return Object.fromEntries(
+    options
+      .replace(/^.*\?/, "")
+      .split("&")
+      .filter(Boolean)
+      .map((part) => {
+        const [k, v] = part.split("=").map(decodeURIComponent);
+        return [k, k === "multidirectional" ? v === "true" : Number(v)];
+      }),
+  );
+}
+
 export function encodeIndividualOptions(
   options: IndividualContourTileOptions,
 ): string {
@@ -78,27 +138,86 @@ export function encodeIndividualOptions(
     .join(",");
 }
 
-export function getOptionsForZoom(
-  options: GlobalContourTileOptions,
-  zoom: number,
-): IndividualContourTileOptions {
-  const { thresholds, ...rest } = options;
-
-  let levels: number[] = [];
+function valueForZoom<T>(map: ZoomMap<T>, zoom: number): T | undefined {
+  let result: T | undefined;
   let maxLessThanOrEqualTo: number = -Infinity;
 
-  Object.entries(thresholds).forEach(([zString, value]) => {
+  Object.entries(map).forEach(([zString, value]) => {
     const z = Number(zString);
     if (z <= zoom && z > maxLessThanOrEqualTo) {
       maxLessThanOrEqualTo = z;
-      levels = typeof value === "number" ? [value] : value;
+      result = value;
     }
   });
 
-  return {
-    levels,
-    ...rest,
-  };
+  return result;
+}
+
+export function getOptionsForZoom(
+  options: GlobalContourTileOptions,
+  zoom: number,
+): IndividualContourTileOptions {
+  const {
+    thresholds,
+    elevations,
+    simplify,
+    smooth,
+    peakIsolation,
+    minLength,
+    minArea,
+    ...rest
+  } = options;
+
+  const threshold = thresholds && valueForZoom(thresholds, zoom);
+  const levels =
+    threshold === undefined
+      ? []
+      : typeof threshold === "number"
+        ? [threshold]
+        : threshold;
+
+  const result: IndividualContourTileOptions = { levels, ...rest };
+  const elevationsForZoom = elevations && valueForZoom(elevations, zoom);
+  if (elevationsForZoom) {
+    result.elevations = elevationsForZoom;
+  }
+  const zoomDependent = { simplify, smooth, peakIsolation, minLength, minArea };
+  for (const key of zoomDependentOptions) {
+    const value = zoomDependent[key];
+    const forZoom =
+      typeof value === "object" ? valueForZoom(value, zoom) : value;
+    if (forZoom !== undefined) {
+      result[key] = forZoom;
+    }
+  }
+  return result;
+}
+
+/** Returns true if `value` is a multiple of `interval`, tolerating floating-point error. */
+export function isMultiple(value: number, interval: number): boolean {
+  const ratio = value / interval;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+/**
+ * Returns the sorted union of every multiple of each interval between `min` and `max`, so that intervals
+ * that aren't multiples of each other (ie. `[40, 100]`) each get all of their contour lines.
+ */
+export function multiplesBetween(
+  intervals: number[],
+  min: number,
+  max: number,
+): number[] {
+  const result: number[] = [];
+  for (const interval of intervals) {
+    if (interval > 0) {
+      for (let i = Math.ceil(min / interval); i * interval <= max; i++) {
+        // strip floating-point noise like 0.30000000000000004
+        result.push(Number((i * interval).toPrecision(12)));
+      }
+    }
+  }
+  return [...new Set(result)].sort((a, b) => a - b);
 }
 
 export function copy(src: ArrayBuffer): ArrayBuffer {
@@ -213,6 +332,79 @@ export function isAborted(abortController?: AbortController): boolean {
   return Boolean(abortController?.signal?.aborted);
 }
 
+/** Decompresses zlib or gzip data, using the compression streams API available in browsers, workers, and node. */
+export function decompress(
+  data: Uint8Array,
+  format: "deflate" | "gzip",
+): Promise<Uint8Array> {
+  return transformBytes(new DecompressionStream(format), data);
+}
+
+/** Compresses data to zlib or gzip with the compression streams API. */
+export function compress(
+  data: Uint8Array,
+  format: "deflate" | "gzip",
+): Promise<Uint8Array> {
+  return transformBytes(new CompressionStream(format), data);
+}
+
+async function transformBytes(
+  stream: CompressionStream | DecompressionStream,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // the reader below surfaces any errors, and waiting for writes before reading would deadlock
+  writer.write(data).catch(() => {});
+  writer.close().catch(() => {});
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  let length = 0;
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    chunks.push(chunk.value);
+    length += chunk.value.length;
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/** Returns the fractional `[x, y]` coordinates of the web mercator tile at zoom `z` that contains a point. */
+export function lngLatToTile(
+  lng: number,
+  lat: number,
+  z: number,
+): [number, number] {
+  const size = 1 << z;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const y = 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI);
+  // longitudes wrap around the world, and latitudes past the edge of the map stop at it
+  return [
+    (((((lng + 180) / 360) % 1) + 1) % 1) * size,
+    Math.max(0, Math.min(1, y)) * size,
+  ];
+}
+
+/** Returns the `[lng, lat]` of fractional web mercator tile coordinates at zoom `z`. */
+export function tileToLngLat(
+  x: number,
+  y: number,
+  z: number,
+): [number, number] {
+  const size = 1 << z;
+  return [
+    (x / size) * 360 - 180,
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / size))) * 180) / Math.PI,
+  ];
+}
+
 export function parseUrl(url: string): [number, number, number] {
   const [, z, x, y] = /\/\/(\d+)\/(\d+)\/(\d+)/.exec(url) || [];
   return [Number(z), Number(x), Number(y)];
@@ -0,0 +1,92 @@
+import { HeightTile } from "./height-tile";
+import { ringArea } from "./isolines";
+import viewshed, { maskToPolygons } from "./viewshed";
+import type { ViewshedParameters } from "./viewshed";
+
+const observer: ViewshedParameters = {
+  x: 2.5,
+  y: 2.5,
+  observerHeight: 2,
+  targetHeight: 0,
+  radius: 100,
+  pixelSize: 10,
+  curvature: false,
+};
+const rows = (mask: Uint8Array, width: number) =>
+  Array.from({ length: mask.length / width }, (_, i) =>
+    [...mask.subarray(i * width, (i + 1) * width)].join(""),
+  );
+
+test("flat ground is visible within the radius", () => {
+  const flat = new HeightTile(7, 7, () => 100);
+  expect(rows(viewshed(flat, observer), 7)).toEqual(Array(7).fill("1111111"));
+  expect(
+    rows(viewshed(flat, { ...observer, x: 3.5, y: 3.5, radius: 2 }), 7),
+  ).toEqual([
+    "0000000",
+    "0001000",
+    "0011100",
+    "0111110",
+    "0011100",
+    "0001000",
+    "0000000",
+  ]);
+});
+
+test("walls hide the ground behind them", () => {
+  const wall = new HeightTile(8, 5, (x) => (x === 5 ? 150 : 100));
+  expect(rows(viewshed(wall, observer), 8)).toEqual(Array(5).fill("11111100"));
+  // tall targets are visible over the wall
+  expect(rows(viewshed(wall, { ...observer, targetHeight: 200 }), 8)).toEqual(
+    Array(5).fill("11111111"),
+  );
+});
+
+test("earth curvature hides distant ground", () => {
+  const flat = new HeightTile(21, 1, () => 0);
+  const params = {
+    ...observer,
+    y: 0.5,
+    x: 0.5,
+    radius: 20,
+    pixelSize: 1000,
+  };
+  expect(rows(viewshed(flat, params), 21)).toEqual(["1".repeat(21)]);
+  // the horizon is about 5km away at 2m above the ground
+  expect(rows(viewshed(flat, { ...params, curvature: true }), 21)).toEqual([
+    "1".repeat(6) + "0".repeat(15),
+  ]);
+});
+
+test("observer without data sees nothing", () => {
+  const tile = new HeightTile(3, 3, (x, y) =>
+    Math.hypot(x - 1, y - 1) < 1 ? NaN : 100,
+  );
+  expect(rows(viewshed(tile, { ...observer, x: 1.5, y: 1.5 }), 3)).toEqual(
+    Array(3).fill("000"),
+  );
+});
+
+test("mask to polygons", () => {
+  const mask = Uint8Array.from(
+    [
+      [1, 1, 1, 0, 0],
+      [1, 0, 1, 0, 1],
+      [1, 1, 1, 0, 1],
+    ].flat(),
+  );
+  const polygons = maskToPolygons(mask, 5, 3);
+  expect(polygons.map((rings) => rings.length).sort()).toEqual([1, 2]);
+  for (const [exterior, ...holes] of polygons) {
+    expect(ringArea(exterior)).toBeGreaterThan(0);
+    for (const hole of holes) {
+      expect(ringArea(hole)).toBeLessThan(0);
+    }
+  }
+  // outlines go halfway between visible and hidden pixels
+  const ring = polygons.find((rings) => rings.length === 2)![1];
+  const xs = ring.filter((_, i) => i % 2 === 0);
+  expect(Math.min(...xs)).toBe(1);
+  expect(Math.max(...xs)).toBe(2);
+  expect(maskToPolygons(new Uint8Array(4), 2, 2)).toEqual([]);
+});
@@ -0,0 +1,123 @@
+import { HeightTile } from "./height-tile";
+import { generateIsobands, ringArea } from "./isolines";
+
+const EARTH_RADIUS_M = 6371008.8;
+/** Standard coefficient of atmospheric refraction, which bends sight lines back toward the ground. */
+const REFRACTION = 0.13;
+/** Polygon vertices are rounded to this fraction of a pixel. */
+const PRECISION = 16;
+
+export interface ViewshedParameters {
+  /** Position of the observer in pixels from the top-left corner of the tile */
+  x: number;
+  y: number;
+  /** Height of the observer above the ground in meters */
+  observerHeight: number;
+  /** Height above the ground that targets need to be seen at in meters */
+  targetHeight: number;
+  /** Maximum distance from the observer in pixels */
+  radius: number;
+  /** Size of each pixel in meters */
+  pixelSize: number;
+  /** Lower distant targets to account for the curvature of the earth and atmospheric refraction */
+  curvature: boolean;
+}
+
+/**
+ * Computes which pixels of a height tile are visible from an observer, by casting a ray from the observer to each
+ * pixel on the edge of the tile and marking pixels along the way that are not hidden behind closer terrain.
+ *
+ * @param tile Elevations in meters, where values represent the height at the center of each pixel
+ * @returns 1 for each visible pixel and 0 for hidden pixels or pixels out of range, in row-major order
+ */
+export default function viewshed(
+  tile: HeightTile,
+  {
+    x,
+    y,
+    observerHeight,
+    targetHeight,
+    radius,
+    pixelSize,
+    curvature,
+  }: ViewshedParameters,
+): Uint8Array {
+  const { width, height } = tile;
+  const mask = new Uint8Array(width * height);
+  const ox = Math.floor(x);
+  const oy = Math.floor(y);
+  // interpolation fills in missing pixels from their neighbors, so check the observer's own pixel first
+  if (isNaN(tile.get(ox, oy))) {
+    return mask;
+  }
+  const observer = tile.interpolate(x, y) + observerHeight;
+  if (ox >= 0 && oy >= 0 && ox < width && oy < height) {
+    mask[oy * width + ox] = 1;
+  }
+
+  const castRay = (targetX: number, targetY: number) => {
+    const dx = targetX + 0.5 - x;
+    const dy = targetY + 0.5 - y;
+    const steps = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)));
+    let maxSlope = -Infinity;
+    for (let step = 1; step <= steps; step++) {
+      const px = x + (dx * step) / steps;
+      const py = y + (dy * step) / steps;
+      const distance = Math.hypot(px - x, py - y);
+      if (distance > radius) break;
+      const col = Math.floor(px);
+      const row = Math.floor(py);
+      const elevation = tile.get(col, row);
+      if (isNaN(elevation)) continue;
+      const meters = distance * pixelSize;
+      const drop = curvature
+        ? ((1 - REFRACTION) * meters * meters) / (2 * EARTH_RADIUS_M)
+        : 0;
+      const slope = (elevation - drop - observer) / meters;
+      if (slope + targetHeight / meters >= maxSlope) {
+        mask[row * width + col] = 1;
+      }
+      maxSlope = Math.max(maxSlope, slope);
+    }
+  };
+
+  for (let col = 0; col < width; col++) {
+    castRay(col, 0);
+    castRay(col, height - 1);
+  }
+  for (let row = 1; row < height - 1; row++) {
+    castRay(0, row);
+    castRay(width - 1, row);
+  }
+  return mask;
+}
+
+/**
+ * Traces the outline of the visible pixels in a viewshed mask.
+ *
+ * @returns polygons made of a clockwise exterior ring followed by counter-clockwise holes, with `[x1, y1, x2, y2, ...]`
+ * rings in pixels from the top-left corner of the mask
+ */
+export function maskToPolygons(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+): number[][][] {
+  if (width < 2 || height < 2) {
+    return [];
+  }
+  const tile = new HeightTile(width, height, (x, y) => mask[y * width + x]);
+  const rings =
+    generateIsobands([0.5], tile, (width - 1) * PRECISION, 0)[0.5] || [];
+  const polygons: number[][][] = [];
+  for (const ring of rings) {
+    // isoband coordinates go from the center of the first pixel to the center of the last one
+    const pixels = ring.map((value) => value / PRECISION + 0.5);
+    if (ringArea(ring) > 0 || polygons.length === 0) {
+      polygons.push([pixels]);
+    } else {
+      polygons[polygons.length - 1].push(pixels);
+    }
+  }
+  return polygons;
+}
@@ -1,14 +1,40 @@
+import { CogDemManager, isCogUrl } from "./cog-dem-manager";
+import { HgtDemManager, isHgtUrl } from "./hgt-dem-manager";
 import { LocalDemManager } from "./local-dem-manager";
 import { Timer } from "./performance";
 import type {
   ContourTile,
+  DemManagerInitizlizationParameters,
+  ElevationProfile,
+  ElevationProfileOptions,
+  ElevationStatistics,
+  ElevationStatisticsOptions,
   FetchResponse,
+  HillshadeOptions,
+  HillshadeTile,
   IndividualContourTileOptions,
   InitMessage,
+  IsTransferrable,
+  LineString,
+  Polygon,
   TransferrableDemTile,
+  Viewshed,
+  ViewshedOptions,
 } from "./types";
 import { prepareContourTile, prepareDemTile } from "./utils";
 
+/** Creates the manager that reads the kind of source a url points to, in the current thread. */
+export function createLocalDemManager(
+  options: DemManagerInitizlizationParameters,
+): LocalDemManager {
+  const url = options.demUrlPattern;
+  return isCogUrl(url)
+    ? new CogDemManager(options)
+    : isHgtUrl(url)
+      ? new HgtDemManager(options)
+      : new LocalDemManager(options);
+}
+
 const noManager = (managerId: number): Promise<any> =>
   Promise.reject(new Error(`No manager registered for ${managerId}`));
 
@@ -19,9 +45,11 @@ export default class WorkerDispatch {
   /** There is one worker shared between all managers in the main thread using the plugin, so need to store each of their configurations. */
   managers: { [id: number]: LocalDemManager } = {};
 
-  init = (message: InitMessage, _: AbortController): Promise<void> => {
-    this.managers[message.managerId] = new LocalDemManager(message);
-    return Promise.resolve();
+  /** Registers a manager, and resolves to its max zoom once it has loaded. */
+  init = (message: InitMessage, _: AbortController): Promise<number> => {
+    const manager = (this.managers[message.managerId] =
+      createLocalDemManager(message));
+    return manager.loaded.then(() => manager.maxzoom);
   };
 
   fetchTile = (
@@ -73,4 +101,88 @@ export default class WorkerDispatch {
         timer,
       ) || noManager(managerId),
     );
+
+  fetchHillshadeTile = (
+    managerId: number,
+    z: number,
+    x: number,
+    y: number,
+    options: HillshadeOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<HillshadeTile> =>
+    prepareContourTile(
+      this.managers[managerId]?.fetchHillshadeTile(
+        z,
+        x,
+        y,
+        options,
+        abortController,
+        timer,
+      ) || noManager(managerId),
+    );
+
+  fetchElevations = (
+    managerId: number,
+    points: [number, number][],
+    zoom: number | undefined,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<number[]> =>
+    this.managers[managerId]?.fetchElevations(
+      points,
+      zoom,
+      abortController,
+      timer,
+    ) || noManager(managerId);
+
+  fetchElevationProfile = (
+    managerId: number,
+    line: LineString,
+    options: ElevationProfileOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationProfile> =>
+    this.managers[managerId]?.fetchElevationProfile(
+      line,
+      options,
+      abortController,
+      timer,
+    ) || noManager(managerId);
+
+  fetchElevationStatistics = (
+    managerId: number,
+    area: [number, number, number, number] | Polygon,
+    options: ElevationStatisticsOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<ElevationStatistics> =>
+    this.managers[managerId]?.fetchElevationStatistics(
+      area,
+      options,
+      abortController,
+      timer,
+    ) || noManager(managerId);
+
+  fetchViewshed = (
+    managerId: number,
+    lng: number,
+    lat: number,
+    options: ViewshedOptions,
+    abortController: AbortController,
+    timer?: Timer,
+  ): Promise<Viewshed & IsTransferrable> =>
+    (
+      this.managers[managerId]?.fetchViewshed(
+        lng,
+        lat,
+        options,
+        abortController,
+        timer,
+      ) || noManager(managerId)
+    ).then((viewshed) => ({
+      ...viewshed,
+      // each viewshed is computed fresh, so its mask can be moved to the main thread without copying
+      transferrables: [viewshed.mask.buffer],
+    }));
 }